@@ -7,6 +7,7 @@
 
 import React from 'react';
 import { Target, BookOpen, Lightbulb } from 'lucide-react';
+import { LAB_AIM } from '../physics/constants';
 
 export const AimSection: React.FC = () => {
   return (
@@ -20,10 +21,7 @@ export const AimSection: React.FC = () => {
       </div>
 
       <div className="space-y-4">
-        <p className="text-foreground leading-relaxed">
-          To study the motion of a projectile under uniform gravitational acceleration 
-          and verify the kinematic equations for projectile motion.
-        </p>
+        <p className="text-foreground leading-relaxed">{LAB_AIM.statement}</p>
 
         <div className="grid md:grid-cols-2 gap-4 pt-2">
           <div className="flex gap-3 p-3 bg-secondary/50 rounded-lg">
@@ -31,9 +29,9 @@ export const AimSection: React.FC = () => {
             <div>
               <h4 className="text-sm font-semibold text-foreground mb-1">Key Concepts</h4>
               <ul className="text-sm text-muted-foreground space-y-1">
-                <li>• Uniform acceleration due to gravity</li>
-                <li>• Independent horizontal and vertical motion</li>
-                <li>• Parabolic trajectory of projectiles</li>
+                {LAB_AIM.keyConcepts.map((concept) => (
+                  <li key={concept}>• {concept}</li>
+                ))}
               </ul>
             </div>
           </div>
@@ -43,9 +41,9 @@ export const AimSection: React.FC = () => {
             <div>
               <h4 className="text-sm font-semibold text-foreground mb-1">Assumptions</h4>
               <ul className="text-sm text-muted-foreground space-y-1">
-                <li>• No air resistance</li>
-                <li>• Constant gravitational acceleration</li>
-                <li>• Motion in 2D plane only</li>
+                {LAB_AIM.assumptions.map((assumption) => (
+                  <li key={assumption}>• {assumption}</li>
+                ))}
               </ul>
             </div>
           </div>
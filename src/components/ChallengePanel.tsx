@@ -0,0 +1,196 @@
+/**
+ * ChallengePanel.tsx - Target-practice game mode
+ *
+ * A random target appears on the canvas each round. Students adjust the
+ * launch parameters, take one shot per target, and get feedback on how
+ * close they came. All attempts are listed for the teacher at the end.
+ */
+
+import React, { useState } from 'react';
+import { Trophy, Flame, ArrowRight, Square } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { DECIMAL_PLACES, DEFAULT_CHALLENGE_SETTINGS } from '../physics/constants';
+import { ChallengeAttempt, ChallengeSettings } from '../physics/types';
+
+interface ChallengePanelProps {
+  isActive: boolean;
+  isFinished: boolean;
+  round: number;
+  rounds: number;
+  attempts: ChallengeAttempt[];
+  lastAttempt: ChallengeAttempt | null;
+  score: number;
+  streak: number;
+  bestStreak: number;
+  onStart: (settings: ChallengeSettings) => void;
+  onNextRound: () => void;
+  onStop: () => void;
+  disabled?: boolean;
+}
+
+const ROUND_OPTIONS = [3, 5, 10];
+
+export const ChallengePanel: React.FC<ChallengePanelProps> = ({
+  isActive,
+  isFinished,
+  round,
+  rounds,
+  attempts,
+  lastAttempt,
+  score,
+  streak,
+  bestStreak,
+  onStart,
+  onNextRound,
+  onStop,
+  disabled = false,
+}) => {
+  const [settings, setSettings] = useState<ChallengeSettings>(DEFAULT_CHALLENGE_SETTINGS);
+
+  const getFeedback = (attempt: ChallengeAttempt) => {
+    if (attempt.hit) return 'Hit! 🎯';
+    if (attempt.blockedByWall) return 'Blocked by the wall';
+    return `Missed by ${attempt.missDistance.toFixed(DECIMAL_PLACES)} m`;
+  };
+
+  return (
+    <div className="lab-section space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Trophy className="w-5 h-5 text-prediction" />
+          Target Practice
+        </h3>
+        <span className="phase-badge phase-simulate">Simulate</span>
+      </div>
+
+      {!isActive ? (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Hit each random target with one shot. Set your speed and angle, then launch!
+          </p>
+
+          <div className="flex items-center justify-between">
+            <Label className="text-sm text-foreground">Rounds</Label>
+            <Select
+              value={String(settings.rounds)}
+              onValueChange={(value) => setSettings({ ...settings, rounds: parseInt(value, 10) })}
+            >
+              <SelectTrigger className="w-24 lab-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROUND_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label className="text-sm text-foreground">Raised targets</Label>
+            <Switch
+              checked={settings.elevatedTargets}
+              onCheckedChange={(checked) => setSettings({ ...settings, elevatedTargets: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label className="text-sm text-foreground">Wall in the way</Label>
+            <Switch
+              checked={settings.walls}
+              onCheckedChange={(checked) => setSettings({ ...settings, walls: checked })}
+            />
+          </div>
+
+          <Button onClick={() => onStart(settings)} disabled={disabled} className="w-full">
+            <Trophy className="w-4 h-4 mr-2" />
+            Start Challenge
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {/* Scoreboard */}
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-secondary/50 rounded-lg p-3">
+              <p className="text-xs text-muted-foreground mb-1">Round</p>
+              <p className="mono text-sm text-foreground">{round} / {rounds}</p>
+            </div>
+            <div className="bg-secondary/50 rounded-lg p-3">
+              <p className="text-xs text-muted-foreground mb-1">Hits</p>
+              <p className="mono text-sm text-foreground">{score}</p>
+            </div>
+            <div className="bg-secondary/50 rounded-lg p-3">
+              <p className="text-xs text-muted-foreground mb-1 flex items-center justify-center gap-1">
+                <Flame className="w-3 h-3 text-prediction" /> Streak
+              </p>
+              <p className="mono text-sm text-foreground">{streak} (best {bestStreak})</p>
+            </div>
+          </div>
+
+          {/* Feedback for this round */}
+          {lastAttempt ? (
+            <div className={`p-3 rounded-lg text-sm font-medium ${lastAttempt.hit ? 'bg-accent/30 text-accent-foreground' : 'bg-secondary/50 text-foreground'}`}>
+              {getFeedback(lastAttempt)}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Aim for the target on the canvas and launch when ready.
+            </p>
+          )}
+
+          {isFinished && (
+            <div className="p-3 bg-primary/10 rounded-lg text-sm text-foreground">
+              Challenge complete! You hit {score} of {rounds} targets.
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            {!isFinished && (
+              <Button onClick={onNextRound} disabled={disabled || !lastAttempt} className="flex-1">
+                <ArrowRight className="w-4 h-4 mr-2" />
+                Next Target
+              </Button>
+            )}
+            <Button onClick={onStop} variant="outline" disabled={disabled} className="flex-1">
+              <Square className="w-4 h-4 mr-2" />
+              {isFinished ? 'Close' : 'End Challenge'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Attempt record for the teacher */}
+      {attempts.length > 0 && (
+        <div className="overflow-hidden rounded-lg border border-border">
+          <table className="w-full text-xs">
+            <thead className="bg-secondary/70">
+              <tr>
+                <th className="text-left py-2 px-2 font-medium text-foreground">#</th>
+                <th className="text-right py-2 px-2 font-medium text-foreground">v₀ (m/s)</th>
+                <th className="text-right py-2 px-2 font-medium text-foreground">θ (°)</th>
+                <th className="text-right py-2 px-2 font-medium text-foreground">Miss (m)</th>
+                <th className="text-center py-2 px-2 font-medium text-foreground">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {attempts.map((attempt, index) => (
+                <tr key={attempt.timestamp} className={index % 2 === 0 ? 'bg-card' : 'bg-secondary/30'}>
+                  <td className="py-2 px-2 text-foreground">{attempt.round}</td>
+                  <td className="py-2 px-2 text-right mono">{attempt.initialVelocity.toFixed(1)}</td>
+                  <td className="py-2 px-2 text-right mono">{attempt.launchAngle.toFixed(1)}</td>
+                  <td className="py-2 px-2 text-right mono">
+                    {attempt.blockedByWall ? 'wall' : attempt.missDistance.toFixed(DECIMAL_PLACES)}
+                  </td>
+                  <td className="py-2 px-2 text-center">{attempt.hit ? '✅' : '❌'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChallengePanel;
@@ -0,0 +1,110 @@
+/**
+ * ComplementaryAnglesPanel.tsx - θ vs 90° − θ experiment
+ *
+ * Launches a second projectile at the complementary angle alongside
+ * the main one, then compares the two: the same range, but different
+ * flight times and peak heights.
+ */
+
+import React, { useMemo } from 'react';
+import { Split } from 'lucide-react';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { compareComplementaryAngles } from '../physics/complementary';
+import { DECIMAL_PLACES } from '../physics/constants';
+import { CalculatedResults, LaunchParameters } from '../physics/types';
+
+interface ComplementaryAnglesPanelProps {
+  params: LaunchParameters;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+// Differences smaller than this count as "the same" (meters)
+const RANGE_TOLERANCE = 0.01;
+
+const ROWS: { label: string; unit: string; value: (results: CalculatedResults) => number }[] = [
+  { label: 'Range', unit: 'm', value: (results) => results.horizontalRange },
+  { label: 'Time of flight', unit: 's', value: (results) => results.timeOfFlight },
+  { label: 'Max height', unit: 'm', value: (results) => results.maxHeight },
+];
+
+export const ComplementaryAnglesPanel: React.FC<ComplementaryAnglesPanelProps> = ({
+  params,
+  enabled,
+  onEnabledChange,
+  disabled = false,
+}) => {
+  const comparison = useMemo(() => compareComplementaryAngles(params), [params]);
+  const { low, high, rangeDifference, isSymmetric } = comparison;
+  const sameRange = Math.abs(rangeDifference) < RANGE_TOLERANCE;
+
+  return (
+    <div className="lab-section space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Split className="w-5 h-5 text-primary" />
+          Complementary Angles
+        </h3>
+        <span className="phase-badge phase-simulate">Simulate</span>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label className="text-sm text-foreground">
+          Also launch at 90° − θ = {(90 - params.launchAngle).toFixed(1)}°
+        </Label>
+        <Switch checked={enabled} onCheckedChange={onEnabledChange} disabled={disabled} />
+      </div>
+
+      {enabled && (
+        <>
+          {/* Side-by-side results */}
+          <div className="overflow-hidden rounded-lg border border-border">
+            <table className="w-full text-sm">
+              <thead className="bg-secondary/70">
+                <tr>
+                  <th className="text-left py-2 px-3 font-medium text-foreground"></th>
+                  <th className="text-right py-2 px-3 font-medium text-foreground">θ = {low.launchAngle.toFixed(1)}°</th>
+                  <th className="text-right py-2 px-3 font-medium text-foreground">θ = {high.launchAngle.toFixed(1)}°</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ROWS.map((row, index) => {
+                  const isRange = index === 0;
+                  const highlight = isRange && sameRange ? 'text-accent-foreground font-semibold' : 'text-foreground';
+                  return (
+                    <tr key={row.label} className={index % 2 === 0 ? 'bg-card' : 'bg-secondary/30'}>
+                      <td className="py-2 px-3 text-muted-foreground">{row.label}</td>
+                      <td className={`py-2 px-3 text-right mono ${highlight}`}>
+                        {row.value(low.results).toFixed(DECIMAL_PLACES)} {row.unit}
+                      </td>
+                      <td className={`py-2 px-3 text-right mono ${highlight}`}>
+                        {row.value(high.results).toFixed(DECIMAL_PLACES)} {row.unit}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* What to notice */}
+          <div className="p-3 bg-secondary/50 rounded-lg text-sm text-foreground">
+            {sameRange
+              ? '🎯 Same range! The steeper launch climbs higher and stays up longer, but covers the same distance.'
+              : `The ranges differ by ${Math.abs(rangeDifference).toFixed(DECIMAL_PLACES)} m.`}
+          </div>
+
+          {!isSymmetric && (
+            <p className="text-xs text-muted-foreground">
+              💡 θ and 90° − θ only give the same range on level ground with no air resistance.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComplementaryAnglesPanel;
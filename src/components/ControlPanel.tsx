@@ -5,17 +5,32 @@
  * - Initial velocity input
  * - Launch angle input
  * - Gravity input
+ * - Launch and landing height inputs
+ * - Air resistance model and its inputs
+ * - "Hit a Target" mode using the inverse solver
  * - Start/Pause/Reset buttons
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Play, Pause, RotateCcw } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Slider } from './ui/slider';
-import { LIMITS, DEFAULT_INITIAL_VELOCITY, DEFAULT_LAUNCH_ANGLE, STANDARD_GRAVITY } from '../physics/constants';
-import { LaunchParameters } from '../physics/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { TargetSolver } from './TargetSolver';
+import {
+  LIMITS,
+  DEFAULT_INITIAL_VELOCITY,
+  DEFAULT_LAUNCH_ANGLE,
+  STANDARD_GRAVITY,
+  DEFAULT_LAUNCH_HEIGHT,
+  DEFAULT_LANDING_HEIGHT,
+  DEFAULT_DRAG,
+  DEFAULT_TARGET,
+} from '../physics/constants';
+import { DragModel, DragParameters, LaunchParameters, Vector2D } from '../physics/types';
 import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
 
 interface ControlPanelProps {
@@ -26,6 +41,8 @@ interface ControlPanelProps {
   onPlay: () => void;
   onPause: () => void;
   onReset: () => void;
+  target?: Vector2D | null;
+  onTargetChange?: (target: Vector2D | null) => void;
   disabled?: boolean;
 }
 
@@ -37,6 +54,8 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   onPlay,
   onPause,
   onReset,
+  target = null,
+  onTargetChange,
   disabled = false,
 }) => {
   const handleVelocityChange = (value: number) => {
@@ -60,6 +79,61 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     });
   };
 
+  const handleLaunchHeightChange = (value: number) => {
+    onParamsChange({
+      ...params,
+      launchHeight: Math.max(LIMITS.height.min, Math.min(LIMITS.height.max, value)),
+    });
+  };
+
+  const handleLandingHeightChange = (value: number) => {
+    onParamsChange({
+      ...params,
+      landingHeight: Math.max(LIMITS.height.min, Math.min(LIMITS.height.max, value)),
+    });
+  };
+
+  // Which tab is open; the target stays on the canvas until it is removed
+  const [mode, setMode] = useState<'parameters' | 'target'>(target ? 'target' : 'parameters');
+
+  // A target set or cleared from outside (e.g. opening a session) opens the matching tab
+  useEffect(() => {
+    setMode(target ? 'target' : 'parameters');
+  }, [target]);
+
+  const handleModeChange = (value: string) => {
+    setMode(value as 'parameters' | 'target');
+    if (value === 'target' && !target) {
+      onTargetChange?.(DEFAULT_TARGET);
+    }
+  };
+
+  const handleRemoveTarget = () => {
+    onTargetChange?.(null);
+    setMode('parameters');
+  };
+
+  const drag = params.drag ?? DEFAULT_DRAG;
+
+  const handleDragChange = (field: Exclude<keyof DragParameters, 'model'>, value: number) => {
+    const limits = LIMITS[field];
+    onParamsChange({
+      ...params,
+      drag: { ...drag, [field]: Math.max(limits.min, Math.min(limits.max, value)) },
+    });
+  };
+
+  const handleDragModelChange = (model: DragModel) => {
+    onParamsChange({ ...params, drag: { ...drag, model } });
+  };
+
+  const dragInputs: { field: Exclude<keyof DragParameters, 'model'>; label: string; unit: string; step: number }[] = [
+    { field: 'mass', label: 'Mass', unit: 'kg', step: 0.01 },
+    { field: 'dragCoefficient', label: 'Drag coefficient C_d', unit: '', step: 0.01 },
+    { field: 'crossSectionArea', label: 'Area A', unit: 'm²', step: 0.0001 },
+    { field: 'airDensity', label: 'Air density ρ', unit: 'kg/m³', step: 0.01 },
+  ];
+
   return (
     <div className="lab-section space-y-6">
       <div className="flex items-center justify-between">
@@ -67,119 +141,270 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         <span className="phase-badge phase-simulate">Simulate</span>
       </div>
 
-      {/* Initial Velocity */}
-      <div className="space-y-3">
-        <div className="flex items-center justify-between">
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Label className="text-sm font-medium text-foreground cursor-help">
-                Initial Velocity (v₀)
-              </Label>
-            </TooltipTrigger>
-            <TooltipContent className="tooltip-content">
-              <p>The speed at which the projectile is launched. Higher velocity = farther range.</p>
-            </TooltipContent>
-          </Tooltip>
-          <span className="mono text-sm text-primary">{params.initialVelocity.toFixed(1)} m/s</span>
-        </div>
-        <div className="flex gap-3 items-center">
-          <Slider
-            value={[params.initialVelocity]}
-            onValueChange={([value]) => handleVelocityChange(value)}
-            min={LIMITS.velocity.min}
-            max={LIMITS.velocity.max}
-            step={0.5}
-            disabled={disabled || isPlaying}
-            className="flex-1"
-          />
-          <Input
-            type="number"
-            value={params.initialVelocity}
-            onChange={(e) => handleVelocityChange(parseFloat(e.target.value) || DEFAULT_INITIAL_VELOCITY)}
-            min={LIMITS.velocity.min}
-            max={LIMITS.velocity.max}
-            step={0.5}
-            disabled={disabled || isPlaying}
-            className="w-20 lab-input text-center"
-          />
-        </div>
-      </div>
+      <Tabs value={mode} onValueChange={handleModeChange} className="space-y-6">
+        {onTargetChange && (
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="parameters" disabled={isPlaying}>Parameters</TabsTrigger>
+            <TabsTrigger value="target" disabled={isPlaying}>Hit a Target</TabsTrigger>
+          </TabsList>
+        )}
 
-      {/* Launch Angle */}
-      <div className="space-y-3">
-        <div className="flex items-center justify-between">
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Label className="text-sm font-medium text-foreground cursor-help">
-                Launch Angle (θ)
-              </Label>
-            </TooltipTrigger>
-            <TooltipContent className="tooltip-content">
-              <p>The angle above horizontal at launch. 45° gives maximum range for a given speed.</p>
-            </TooltipContent>
-          </Tooltip>
-          <span className="mono text-sm text-primary">{params.launchAngle.toFixed(1)}°</span>
-        </div>
-        <div className="flex gap-3 items-center">
-          <Slider
-            value={[params.launchAngle]}
-            onValueChange={([value]) => handleAngleChange(value)}
-            min={LIMITS.angle.min}
-            max={LIMITS.angle.max}
-            step={1}
-            disabled={disabled || isPlaying}
-            className="flex-1"
-          />
-          <Input
-            type="number"
-            value={params.launchAngle}
-            onChange={(e) => handleAngleChange(parseFloat(e.target.value) || DEFAULT_LAUNCH_ANGLE)}
-            min={LIMITS.angle.min}
-            max={LIMITS.angle.max}
-            step={1}
-            disabled={disabled || isPlaying}
-            className="w-20 lab-input text-center"
-          />
-        </div>
-      </div>
+        <TabsContent value="parameters" className="space-y-6 mt-0">
+          {/* Initial Velocity */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Label className="text-sm font-medium text-foreground cursor-help">
+                    Initial Velocity (v₀)
+                  </Label>
+                </TooltipTrigger>
+                <TooltipContent className="tooltip-content">
+                  <p>The speed at which the projectile is launched. Higher velocity = farther range.</p>
+                </TooltipContent>
+              </Tooltip>
+              <span className="mono text-sm text-primary">{params.initialVelocity.toFixed(1)} m/s</span>
+            </div>
+            <div className="flex gap-3 items-center">
+              <Slider
+                value={[params.initialVelocity]}
+                onValueChange={([value]) => handleVelocityChange(value)}
+                min={LIMITS.velocity.min}
+                max={LIMITS.velocity.max}
+                step={0.5}
+                disabled={disabled || isPlaying}
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                value={params.initialVelocity}
+                onChange={(e) => handleVelocityChange(parseFloat(e.target.value) || DEFAULT_INITIAL_VELOCITY)}
+                min={LIMITS.velocity.min}
+                max={LIMITS.velocity.max}
+                step={0.5}
+                disabled={disabled || isPlaying}
+                className="w-20 lab-input text-center"
+              />
+            </div>
+          </div>
 
-      {/* Gravity */}
-      <div className="space-y-3">
-        <div className="flex items-center justify-between">
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Label className="text-sm font-medium text-foreground cursor-help">
-                Gravity (g)
-              </Label>
-            </TooltipTrigger>
-            <TooltipContent className="tooltip-content">
-              <p>Gravitational acceleration. Earth's value is 9.8 m/s². Try other values to simulate different planets!</p>
-            </TooltipContent>
-          </Tooltip>
-          <span className="mono text-sm text-primary">{params.gravity.toFixed(1)} m/s²</span>
-        </div>
-        <div className="flex gap-3 items-center">
-          <Slider
-            value={[params.gravity]}
-            onValueChange={([value]) => handleGravityChange(value)}
-            min={LIMITS.gravity.min}
-            max={LIMITS.gravity.max}
-            step={0.1}
-            disabled={disabled || isPlaying}
-            className="flex-1"
-          />
-          <Input
-            type="number"
-            value={params.gravity}
-            onChange={(e) => handleGravityChange(parseFloat(e.target.value) || STANDARD_GRAVITY)}
-            min={LIMITS.gravity.min}
-            max={LIMITS.gravity.max}
-            step={0.1}
-            disabled={disabled || isPlaying}
-            className="w-20 lab-input text-center"
-          />
-        </div>
-      </div>
+          {/* Launch Angle */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Label className="text-sm font-medium text-foreground cursor-help">
+                    Launch Angle (θ)
+                  </Label>
+                </TooltipTrigger>
+                <TooltipContent className="tooltip-content">
+                  <p>The angle above horizontal at launch. 45° gives maximum range for a given speed.</p>
+                </TooltipContent>
+              </Tooltip>
+              <span className="mono text-sm text-primary">{params.launchAngle.toFixed(1)}°</span>
+            </div>
+            <div className="flex gap-3 items-center">
+              <Slider
+                value={[params.launchAngle]}
+                onValueChange={([value]) => handleAngleChange(value)}
+                min={LIMITS.angle.min}
+                max={LIMITS.angle.max}
+                step={1}
+                disabled={disabled || isPlaying}
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                value={params.launchAngle}
+                onChange={(e) => handleAngleChange(parseFloat(e.target.value) || DEFAULT_LAUNCH_ANGLE)}
+                min={LIMITS.angle.min}
+                max={LIMITS.angle.max}
+                step={1}
+                disabled={disabled || isPlaying}
+                className="w-20 lab-input text-center"
+              />
+            </div>
+          </div>
+
+          {/* Gravity */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Label className="text-sm font-medium text-foreground cursor-help">
+                    Gravity (g)
+                  </Label>
+                </TooltipTrigger>
+                <TooltipContent className="tooltip-content">
+                  <p>Gravitational acceleration. Earth's value is 9.8 m/s². Try other values to simulate different planets!</p>
+                </TooltipContent>
+              </Tooltip>
+              <span className="mono text-sm text-primary">{params.gravity.toFixed(1)} m/s²</span>
+            </div>
+            <div className="flex gap-3 items-center">
+              <Slider
+                value={[params.gravity]}
+                onValueChange={([value]) => handleGravityChange(value)}
+                min={LIMITS.gravity.min}
+                max={LIMITS.gravity.max}
+                step={0.1}
+                disabled={disabled || isPlaying}
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                value={params.gravity}
+                onChange={(e) => handleGravityChange(parseFloat(e.target.value) || STANDARD_GRAVITY)}
+                min={LIMITS.gravity.min}
+                max={LIMITS.gravity.max}
+                step={0.1}
+                disabled={disabled || isPlaying}
+                className="w-20 lab-input text-center"
+              />
+            </div>
+          </div>
+
+          {/* Launch Height */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Label className="text-sm font-medium text-foreground cursor-help">
+                    Launch Height (h₀)
+                  </Label>
+                </TooltipTrigger>
+                <TooltipContent className="tooltip-content">
+                  <p>Height of the launch point above the ground, like a table top, cliff or tower.</p>
+                </TooltipContent>
+              </Tooltip>
+              <span className="mono text-sm text-primary">{params.launchHeight.toFixed(1)} m</span>
+            </div>
+            <div className="flex gap-3 items-center">
+              <Slider
+                value={[params.launchHeight]}
+                onValueChange={([value]) => handleLaunchHeightChange(value)}
+                min={LIMITS.height.min}
+                max={LIMITS.height.max}
+                step={0.5}
+                disabled={disabled || isPlaying}
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                value={params.launchHeight}
+                onChange={(e) => handleLaunchHeightChange(parseFloat(e.target.value) || DEFAULT_LAUNCH_HEIGHT)}
+                min={LIMITS.height.min}
+                max={LIMITS.height.max}
+                step={0.5}
+                disabled={disabled || isPlaying}
+                className="w-20 lab-input text-center"
+              />
+            </div>
+          </div>
+
+          {/* Landing Height */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Label className="text-sm font-medium text-foreground cursor-help">
+                    Landing Height (h₁)
+                  </Label>
+                </TooltipTrigger>
+                <TooltipContent className="tooltip-content">
+                  <p>Height of the surface the projectile lands on. If it is higher than the peak, the projectile can't reach it.</p>
+                </TooltipContent>
+              </Tooltip>
+              <span className="mono text-sm text-primary">{params.landingHeight.toFixed(1)} m</span>
+            </div>
+            <div className="flex gap-3 items-center">
+              <Slider
+                value={[params.landingHeight]}
+                onValueChange={([value]) => handleLandingHeightChange(value)}
+                min={LIMITS.height.min}
+                max={LIMITS.height.max}
+                step={0.5}
+                disabled={disabled || isPlaying}
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                value={params.landingHeight}
+                onChange={(e) => handleLandingHeightChange(parseFloat(e.target.value) || DEFAULT_LANDING_HEIGHT)}
+                min={LIMITS.height.min}
+                max={LIMITS.height.max}
+                step={0.5}
+                disabled={disabled || isPlaying}
+                className="w-20 lab-input text-center"
+              />
+            </div>
+          </div>
+
+          {/* Air Resistance */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Label className="text-sm font-medium text-foreground cursor-help">
+                    Air Resistance
+                  </Label>
+                </TooltipTrigger>
+                <TooltipContent className="tooltip-content">
+                  <p>Linear drag grows with speed (F = −bv); quadratic drag grows with speed squared (F = −½ρC_dA|v|v). Real balls in air are closer to quadratic.</p>
+                </TooltipContent>
+              </Tooltip>
+              <Select
+                value={drag.model}
+                onValueChange={(value) => handleDragModelChange(value as DragModel)}
+                disabled={disabled || isPlaying}
+              >
+                <SelectTrigger className="w-36 lab-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (ideal)</SelectItem>
+                  <SelectItem value="linear">Linear</SelectItem>
+                  <SelectItem value="quadratic">Quadratic</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {drag.model !== 'none' && (
+              <div className="grid grid-cols-2 gap-3">
+                {dragInputs.map(({ field, label, unit, step }) => (
+                  <div key={field} className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">
+                      {label}{unit && ` (${unit})`}
+                    </Label>
+                    <Input
+                      type="number"
+                      value={drag[field]}
+                      onChange={(e) => handleDragChange(field, parseFloat(e.target.value) || DEFAULT_DRAG[field])}
+                      min={LIMITS[field].min}
+                      max={LIMITS[field].max}
+                      step={step}
+                      disabled={disabled || isPlaying}
+                      className="lab-input text-center"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </TabsContent>
+
+        {target && onTargetChange && (
+          <TabsContent value="target" className="mt-0">
+            <TargetSolver
+              params={params}
+              target={target}
+              onTargetChange={onTargetChange}
+              onRemoveTarget={handleRemoveTarget}
+              onParamsChange={onParamsChange}
+              disabled={disabled || isPlaying}
+            />
+          </TabsContent>
+        )}
+      </Tabs>
 
       {/* Control Buttons */}
       <div className="flex gap-3 pt-4 border-t border-border">
@@ -0,0 +1,101 @@
+/**
+ * EnergyPanel.tsx - Live energy bar chart
+ *
+ * Bars for kinetic, potential and total energy follow the projectile
+ * through its flight. Without air resistance the total bar stays level
+ * with the launch energy line while KE and PE trade places; with it,
+ * a fourth bar shows the energy lost to the air.
+ */
+
+import React from 'react';
+import { BatteryCharging } from 'lucide-react';
+import { DECIMAL_PLACES } from '../physics/constants';
+import { isDragEnabled } from '../physics/drag';
+import { calculateEnergyBreakdown, calculateLaunchVelocity, getMass } from '../physics/energy';
+import { LaunchParameters, Vector2D } from '../physics/types';
+
+interface EnergyPanelProps {
+  params: LaunchParameters;
+  position: Vector2D;
+  velocity: Vector2D;
+  hasLaunched: boolean;       // Before launch the bars show the launch energy
+}
+
+// A total that changes by less than this fraction counts as constant
+const CONSERVATION_TOLERANCE = 0.005;
+
+export const EnergyPanel: React.FC<EnergyPanelProps> = ({
+  params,
+  position,
+  velocity,
+  hasLaunched,
+}) => {
+  const dragEnabled = isDragEnabled(params.drag);
+  const energy = hasLaunched
+    ? calculateEnergyBreakdown(params, position, velocity)
+    : calculateEnergyBreakdown(params, { x: 0, y: params.launchHeight }, calculateLaunchVelocity(params));
+
+  const relativeChange = energy.launchTotal > 0 ? energy.change / energy.launchTotal : 0;
+  const isConserved = Math.abs(relativeChange) < CONSERVATION_TOLERANCE;
+
+  const bars = [
+    { label: 'Kinetic', symbol: 'KE', value: energy.kinetic, color: '#f0a050' },
+    { label: 'Potential', symbol: 'PE', value: energy.potential, color: '#7cc9a0' },
+    { label: 'Total', symbol: 'E', value: energy.total, color: '#a48bc6' },
+    ...(dragEnabled ? [{ label: 'Lost to air', symbol: 'W', value: energy.lostToDrag, color: '#d46a6a' }] : []),
+  ];
+  const scale = Math.max(energy.launchTotal, ...bars.map((bar) => bar.value), 1e-9);
+
+  return (
+    <div className="lab-section space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <BatteryCharging className="w-5 h-5 text-primary" />
+          Energy
+        </h3>
+        <span className="phase-badge phase-observe">Observe</span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        KE = ½mv², PE = mgh (from the ground), m = {getMass(params)} kg
+      </p>
+
+      {/* Bar chart with a line at the launch energy */}
+      <div className="relative h-40 flex items-end gap-3 px-2 border-b border-border">
+        <div
+          className="absolute left-0 right-0 border-t border-dashed border-muted-foreground/60"
+          style={{ bottom: `${(energy.launchTotal / scale) * 100}%` }}
+        >
+          <span className="absolute right-0 -top-4 text-[10px] text-muted-foreground">launch</span>
+        </div>
+        {bars.map((bar) => (
+          <div key={bar.label} className="flex-1 h-full flex flex-col justify-end items-center">
+            <span className="text-xs mono text-foreground mb-1">{bar.value.toFixed(DECIMAL_PLACES)} J</span>
+            <div
+              className="w-full max-w-14 rounded-t-md"
+              style={{ height: `${(bar.value / scale) * 100}%`, backgroundColor: bar.color }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-3 px-2">
+        {bars.map((bar) => (
+          <div key={bar.label} className="flex-1 text-center text-xs text-muted-foreground">
+            {bar.label} ({bar.symbol})
+          </div>
+        ))}
+      </div>
+
+      {/* Conservation check */}
+      <div className="p-3 bg-secondary/50 rounded-lg text-sm text-foreground">
+        {dragEnabled
+          ? `🌬️ ${energy.lostToDrag.toFixed(DECIMAL_PLACES)} J (${(Math.max(0, -relativeChange) * 100).toFixed(1)}%) of the launch energy has gone into pushing the air aside.`
+          : isConserved
+            ? '✅ Total energy stays constant: kinetic energy turns into potential energy on the way up and back again on the way down.'
+            : `⚠️ Total energy has changed by ${(relativeChange * 100).toFixed(1)}%. With no air resistance this is error from the numerical method; try RK4 or a smaller time step.`}
+      </div>
+    </div>
+  );
+};
+
+export default EnergyPanel;
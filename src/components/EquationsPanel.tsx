@@ -24,9 +24,9 @@ export const EquationsPanel: React.FC = () => {
       name: 'Position at Time t',
       formulas: [
         'x = vₓ × t',
-        'y = vᵧ × t − ½gt²',
+        'y = h₀ + vᵧ × t − ½gt²',
       ],
-      description: 'Displacement equations',
+      description: 'Displacement equations (h₀ = launch height)',
     },
     {
       name: 'Velocity at Time t',
@@ -38,12 +38,30 @@ export const EquationsPanel: React.FC = () => {
     },
     {
       name: 'Key Results',
+      formulas: [
+        'Time of flight: T = [vᵧ + √(vᵧ² + 2g(h₀ − h₁))]/g',
+        'Max height: H = h₀ + vᵧ²/(2g)',
+        'Range: R = vₓ × T',
+      ],
+      description: 'Important quantities derived from equations (h₁ = landing height)',
+    },
+    {
+      name: 'Level Ground (h₀ = h₁ = 0)',
       formulas: [
         'Time of flight: T = 2vᵧ/g',
         'Max height: H = vᵧ²/(2g)',
-        'Range: R = vₓ × T',
+        'Range: R = v₀² sin(2θ)/g',
+      ],
+      description: 'Special case when launch and landing are at the same height',
+    },
+    {
+      name: 'Air Resistance',
+      formulas: [
+        'Linear: F = −bv, b = ½ρC_dA·v₀',
+        'Quadratic: F = −½ρC_dA|v|v',
+        'a = g + F/m',
       ],
-      description: 'Important quantities derived from equations',
+      description: 'No closed-form answer: solved step by step numerically (RK4)',
     },
   ];
 
@@ -0,0 +1,114 @@
+/**
+ * ExportPanel.tsx - Take the recorded data out of the browser
+ *
+ * Writes the trajectory as CSV (for spreadsheets) or JSON (for Python and
+ * other code), with a choice of sample spacing and decimal places.
+ */
+
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { downloadFile } from '../lib/download';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_INTERVALS, MAX_EXPORT_DECIMALS } from '../physics/constants';
+import { getExportFileName, trajectoryToCSV, trajectoryToJSON } from '../physics/dataExport';
+import { DataExportOptions, LaunchParameters, TrajectoryData } from '../physics/types';
+
+interface ExportPanelProps {
+  trajectory: TrajectoryData;
+  params: LaunchParameters;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ trajectory, params }) => {
+  const [options, setOptions] = useState<DataExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const hasData = trajectory.times.length > 0;
+
+  const handleDecimalsChange = (value: number) => {
+    setOptions({ ...options, decimals: Math.max(0, Math.min(MAX_EXPORT_DECIMALS, Math.round(value))) });
+  };
+
+  const handleExport = () => {
+    if (options.format === 'csv') {
+      downloadFile(getExportFileName(params, 'csv'), trajectoryToCSV(trajectory, params, options), 'text/csv');
+    } else {
+      downloadFile(getExportFileName(params, 'json'), trajectoryToJSON(trajectory, params, options), 'application/json');
+    }
+  };
+
+  return (
+    <div className="lab-section space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Download className="w-5 h-5 text-primary" />
+          Export
+        </h3>
+        <span className="phase-badge phase-observe">Observe</span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Download t, x, y, vₓ, vᵧ and speed for every sample, with the launch parameters, to analyse in a spreadsheet or Python.
+      </p>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Format</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={options.format}
+            onValueChange={(value) => value && setOptions({ ...options, format: value as DataExportOptions['format'] })}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="csv" className="text-xs px-2">CSV</ToggleGroupItem>
+            <ToggleGroupItem value="json" className="text-xs px-2">JSON</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Sample every</Label>
+          <Select
+            value={String(options.interval)}
+            onValueChange={(value) => setOptions({ ...options, interval: parseFloat(value) })}
+          >
+            <SelectTrigger className="h-8 lab-input text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPORT_INTERVALS.map((interval) => (
+                <SelectItem key={interval} value={String(interval)}>
+                  {interval === 0 ? 'Recorded sample' : `${interval} s`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="export-decimals" className="text-xs text-muted-foreground">Decimal places</Label>
+          <Input
+            id="export-decimals"
+            type="number"
+            value={options.decimals}
+            onChange={(e) => handleDecimalsChange(parseFloat(e.target.value) || 0)}
+            min={0}
+            max={MAX_EXPORT_DECIMALS}
+            step={1}
+            className="lab-input h-8 text-center"
+          />
+        </div>
+      </div>
+
+      <Button onClick={handleExport} variant="outline" disabled={!hasData} className="w-full">
+        <Download className="w-4 h-4 mr-2" />
+        Download {options.format.toUpperCase()}
+      </Button>
+
+      {!hasData && (
+        <p className="text-xs text-muted-foreground text-center">Launch the projectile to record some data first.</p>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
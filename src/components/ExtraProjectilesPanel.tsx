@@ -0,0 +1,169 @@
+/**
+ * ExtraProjectilesPanel.tsx - More projectiles in the same launch
+ *
+ * Students add projectiles with their own speed and angle, launched
+ * together with the main one or a few seconds later. They share gravity,
+ * heights and air resistance with the main launch, so only one thing
+ * changes at a time.
+ */
+
+import React from 'react';
+import { Layers, Plus, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { LIMITS, MAX_EXTRA_PROJECTILES, PROJECTILE_COLORS } from '../physics/constants';
+import { ExtraProjectile, LaunchParameters } from '../physics/types';
+
+interface ExtraProjectilesPanelProps {
+  params: LaunchParameters;
+  projectiles: ExtraProjectile[];
+  onProjectilesChange: (projectiles: ExtraProjectile[]) => void;
+  disabled?: boolean;
+}
+
+type EditableField = 'initialVelocity' | 'launchAngle' | 'startDelay';
+
+const FIELD_LIMITS: Record<EditableField, { min: number; max: number }> = {
+  initialVelocity: LIMITS.velocity,
+  launchAngle: LIMITS.angle,
+  startDelay: LIMITS.startDelay,
+};
+
+export const ExtraProjectilesPanel: React.FC<ExtraProjectilesPanelProps> = ({
+  params,
+  projectiles,
+  onProjectilesChange,
+  disabled = false,
+}) => {
+  const handleAdd = () => {
+    const id = Math.max(0, ...projectiles.map((projectile) => projectile.id)) + 1;
+    onProjectilesChange([
+      ...projectiles,
+      {
+        id,
+        initialVelocity: params.initialVelocity,
+        launchAngle: params.launchAngle,
+        startDelay: 0,
+        color: PROJECTILE_COLORS[projectiles.length % PROJECTILE_COLORS.length],
+      },
+    ]);
+  };
+
+  const handleChange = (id: number, field: EditableField, value: number) => {
+    const limits = FIELD_LIMITS[field];
+    onProjectilesChange(projectiles.map((projectile) => (
+      projectile.id === id
+        ? { ...projectile, [field]: Math.max(limits.min, Math.min(limits.max, value)) }
+        : projectile
+    )));
+  };
+
+  const handleColorChange = (id: number, color: string) => {
+    onProjectilesChange(projectiles.map((projectile) => (
+      projectile.id === id ? { ...projectile, color } : projectile
+    )));
+  };
+
+  const handleRemove = (id: number) => {
+    onProjectilesChange(projectiles.filter((projectile) => projectile.id !== id));
+  };
+
+  return (
+    <div className="lab-section space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Layers className="w-5 h-5 text-primary" />
+          More Projectiles
+        </h3>
+        <span className="phase-badge phase-simulate">Simulate</span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Launch extra projectiles with their own speed and angle, together or one after another.
+      </p>
+
+      {projectiles.map((projectile, index) => (
+        <div key={projectile.id} className="p-3 bg-secondary/50 rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              {/* Colour swatch doubles as the colour picker */}
+              <input
+                type="color"
+                value={projectile.color}
+                onChange={(e) => handleColorChange(projectile.id, e.target.value)}
+                disabled={disabled}
+                className="w-5 h-5 rounded cursor-pointer border-0 bg-transparent p-0"
+                aria-label={`Colour for projectile ${index + 2}`}
+              />
+              <span className="text-sm font-medium text-foreground">P{index + 2}</span>
+            </div>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => handleRemove(projectile.id)}
+              disabled={disabled}
+              aria-label="Remove projectile"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">v₀ (m/s)</Label>
+              <Input
+                type="number"
+                value={projectile.initialVelocity}
+                onChange={(e) => handleChange(projectile.id, 'initialVelocity', parseFloat(e.target.value) || LIMITS.velocity.min)}
+                min={LIMITS.velocity.min}
+                max={LIMITS.velocity.max}
+                step={0.5}
+                disabled={disabled}
+                className="lab-input text-center"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">θ (°)</Label>
+              <Input
+                type="number"
+                value={projectile.launchAngle}
+                onChange={(e) => handleChange(projectile.id, 'launchAngle', parseFloat(e.target.value) || LIMITS.angle.min)}
+                min={LIMITS.angle.min}
+                max={LIMITS.angle.max}
+                step={1}
+                disabled={disabled}
+                className="lab-input text-center"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Delay (s)</Label>
+              <Input
+                type="number"
+                value={projectile.startDelay}
+                onChange={(e) => handleChange(projectile.id, 'startDelay', parseFloat(e.target.value) || 0)}
+                min={LIMITS.startDelay.min}
+                max={LIMITS.startDelay.max}
+                step={0.5}
+                disabled={disabled}
+                className="lab-input text-center"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        onClick={handleAdd}
+        variant="outline"
+        disabled={disabled || projectiles.length >= MAX_EXTRA_PROJECTILES}
+        className="w-full"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Projectile
+      </Button>
+    </div>
+  );
+};
+
+export default ExtraProjectilesPanel;
@@ -1,14 +1,35 @@
 /**
  * Graph.tsx - Reusable graph component with cute pastel theme
+ *
+ * Fills its container's width at the preferred aspect ratio and draws at
+ * the screen's pixel ratio for crisp lines and text.
+ *
+ * Hovering (or touching) shows a crosshair with the time and the value of
+ * every line at the nearest sample. The hovered time can be shared, so
+ * other graphs and the canvas mark the same moment.
+ *
+ * Lines marked `measured` can carry a tangent at a chosen time and a
+ * shaded area between two chosen times (see GraphTools.tsx).
+ *
+ * The save button redraws the graph as a high-resolution PNG or a vector SVG.
  */
 
-import React, { useRef, useEffect, useCallback } from 'react';
-import { DataPoint } from '../physics/types';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
+import { ImageExportMenu } from './ImageExportMenu';
+import { useCanvasSize } from '../hooks/useCanvasSize';
+import { downloadFile, getFileName } from '../lib/download';
+import { DrawingContext } from '../lib/drawingContext';
+import { renderToPng, renderToSvg } from '../lib/imageExport';
+import { slopeAt, valueAt } from '../physics/calculus';
+import { IMAGE_EXPORT_SCALE } from '../physics/constants';
+import { DataPoint, ImageExportFormat, TimeRange } from '../physics/types';
 
 interface GraphLine {
   data: DataPoint[];
   color: string;
-  label: string;
+  label: string; // Empty labels are left out of the legend
+  dashed?: boolean; // Thin dashed line, e.g. for a previous run
+  measured?: boolean; // The tangent and area tools act on this line
 }
 
 interface GraphProps {
@@ -16,26 +37,43 @@ interface GraphProps {
   lines: GraphLine[];
   xLabel: string;
   yLabel: string;
-  width: number;
+  xSymbol?: string; // Quantity on the x-axis in the hover readout, e.g. 't'
+  xUnit?: string;
+  width: number;  // Preferred size; the graph fills its container at this aspect ratio
   height: number;
   maxX?: number;
   maxY?: number;
   minY?: number;
+  hoverTime?: number | null; // Shared hovered time (s); leave out to keep hovering local
+  onHoverTimeChange?: (time: number | null) => void;
+  tangentTime?: number | null; // Draw tangents to the measured lines here (s)
+  areaRange?: TimeRange | null; // Shade under the measured lines between these times
+  onPickTime?: (time: number) => void; // Clicked a time on the graph
 }
 
 const PADDING = { left: 50, right: 20, top: 30, bottom: 40 };
 
+// Shortest a graph gets on narrow screens (pixels)
+const MIN_GRAPH_HEIGHT = 200;
+
 export const Graph: React.FC<GraphProps> = ({
-  title, lines, xLabel, yLabel, width, height, maxX, maxY, minY = 0,
+  title, lines, xLabel, yLabel, xSymbol = 't', xUnit = 's', width: preferredWidth, height: preferredHeight, maxX, maxY, minY = 0,
+  hoverTime: sharedHoverTime, onHoverTimeChange, tangentTime = null, areaRange = null, onPickTime,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { containerRef, width, height, pixelRatio } = useCanvasSize(
+    preferredWidth,
+    preferredHeight,
+    MIN_GRAPH_HEIGHT
+  );
 
-  const render = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  // Hover state: the shared time if there is one, and the pointer height on this graph
+  const [localHoverTime, setLocalHoverTime] = useState<number | null>(null);
+  const [pointerY, setPointerY] = useState<number | null>(null);
+  const hoverTime = sharedHoverTime !== undefined ? sharedHoverTime : localHoverTime;
 
+  // Axis ranges and the mapping from data to canvas pixels
+  const plot = useMemo(() => {
     let dataMaxX = maxX || 1;
     let dataMaxY = maxY || 1;
     let dataMinY = minY;
@@ -62,6 +100,16 @@ export const Graph: React.FC<GraphProps> = ({
     const toCanvasX = (x: number) => PADDING.left + x * scaleX;
     const toCanvasY = (y: number) => height - PADDING.bottom - (y - dataMinY) * scaleY;
 
+    return { dataMaxX, dataMaxY, dataMinY, yRange, scaleX, toCanvasX, toCanvasY };
+  }, [lines, width, height, maxX, maxY, minY]);
+
+  /**
+   * Draw the whole graph, in CSS pixels, onto a canvas with `ratio` device pixels each
+   */
+  const draw = useCallback((ctx: DrawingContext, ratio: number) => {
+    const { dataMaxX, dataMaxY, dataMinY, yRange, toCanvasX, toCanvasY } = plot;
+
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
     ctx.clearRect(0, 0, width, height);
 
     // Soft white background
@@ -140,11 +188,51 @@ export const Graph: React.FC<GraphProps> = ({
     ctx.textAlign = 'center';
     ctx.fillText(title, width / 2, 18);
 
+    const measuredLines = lines.filter((line) => line.measured && line.data.length > 1);
+
+    // Area under the measured lines between the picked times
+    if (areaRange) {
+      const start = Math.min(areaRange.start, areaRange.end ?? areaRange.start);
+      const end = Math.max(areaRange.start, areaRange.end ?? areaRange.start);
+      const baseY = toCanvasY(0);
+      measuredLines.forEach((line) => {
+        const from = Math.max(start, line.data[0].time);
+        const to = Math.min(end, line.data[line.data.length - 1].time);
+        if (to <= from) return;
+        ctx.beginPath();
+        ctx.moveTo(toCanvasX(from), baseY);
+        ctx.lineTo(toCanvasX(from), toCanvasY(valueAt(line.data, from)));
+        line.data.forEach((point) => {
+          if (point.time > from && point.time < to) ctx.lineTo(toCanvasX(point.time), toCanvasY(point.value));
+        });
+        ctx.lineTo(toCanvasX(to), toCanvasY(valueAt(line.data, to)));
+        ctx.lineTo(toCanvasX(to), baseY);
+        ctx.closePath();
+        ctx.globalAlpha = 0.25;
+        ctx.fillStyle = line.color;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+      });
+
+      // Limits of the area
+      ctx.strokeStyle = '#8a7fa0';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([2, 3]);
+      [start, end].forEach((time) => {
+        ctx.beginPath();
+        ctx.moveTo(toCanvasX(time), PADDING.top);
+        ctx.lineTo(toCanvasX(time), height - PADDING.bottom);
+        ctx.stroke();
+      });
+      ctx.setLineDash([]);
+    }
+
     // Draw lines
     lines.forEach((line) => {
       if (line.data.length < 2) return;
       ctx.strokeStyle = line.color;
-      ctx.lineWidth = 2.5;
+      ctx.lineWidth = line.dashed ? 1.5 : 2.5;
+      ctx.setLineDash(line.dashed ? [5, 4] : []);
       ctx.lineCap = 'round';
       ctx.lineJoin = 'round';
       ctx.beginPath();
@@ -154,13 +242,42 @@ export const Graph: React.FC<GraphProps> = ({
       }
       ctx.stroke();
     });
+    ctx.setLineDash([]);
+
+    // Tangents to the measured lines, kept inside the plot
+    if (tangentTime !== null) {
+      const halfSpan = dataMaxX * 0.15;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(PADDING.left, PADDING.top, width - PADDING.left - PADDING.right, height - PADDING.top - PADDING.bottom);
+      ctx.clip();
+      measuredLines.forEach((line) => {
+        if (tangentTime < line.data[0].time || tangentTime > line.data[line.data.length - 1].time) return;
+        const value = valueAt(line.data, tangentTime);
+        const slope = slopeAt(line.data, tangentTime);
+        ctx.strokeStyle = '#3a3050';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.moveTo(toCanvasX(tangentTime - halfSpan), toCanvasY(value - slope * halfSpan));
+        ctx.lineTo(toCanvasX(tangentTime + halfSpan), toCanvasY(value + slope * halfSpan));
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(toCanvasX(tangentTime), toCanvasY(value), 4, 0, Math.PI * 2);
+        ctx.fillStyle = line.color;
+        ctx.fill();
+        ctx.strokeStyle = '#3a3050';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+      });
+      ctx.restore();
+    }
 
     // Legend
     const legendY = PADDING.top + 10;
     let legendX = width - PADDING.right - 10;
     ctx.textAlign = 'right';
     ctx.font = "600 10px 'Nunito', sans-serif";
-    lines.forEach((line, index) => {
+    lines.filter((line) => line.label).forEach((line, index) => {
       const textWidth = ctx.measureText(line.label).width;
       ctx.fillStyle = line.color;
       ctx.beginPath();
@@ -169,20 +286,165 @@ export const Graph: React.FC<GraphProps> = ({
       ctx.fillStyle = '#5a4f6e';
       ctx.fillText(line.label, legendX, legendY + index * 16 + 2);
     });
-  }, [title, lines, xLabel, yLabel, width, height, maxX, maxY, minY]);
 
-  useEffect(() => { render(); }, [render]);
+    // Crosshair and readout at the hovered time
+    if (hoverTime !== null && hoverTime >= 0 && hoverTime <= dataMaxX) {
+      const cx = toCanvasX(hoverTime);
+      ctx.strokeStyle = '#8a7fa0';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.moveTo(cx, PADDING.top);
+      ctx.lineTo(cx, height - PADDING.bottom);
+      if (pointerY !== null) {
+        const cy = Math.max(PADDING.top, Math.min(height - PADDING.bottom, pointerY));
+        ctx.moveTo(PADDING.left, cy);
+        ctx.lineTo(width - PADDING.right, cy);
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Snapped marker on each line that covers this time
+      const readings: { color: string; label: string; value: number }[] = [];
+      lines.forEach((line) => {
+        const sample = nearestSample(line.data, hoverTime);
+        if (!sample) return;
+        readings.push({ color: line.color, label: line.label, value: sample.value });
+        ctx.beginPath();
+        ctx.arc(toCanvasX(sample.time), toCanvasY(sample.value), 4, 0, Math.PI * 2);
+        ctx.fillStyle = line.color;
+        ctx.fill();
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+      });
+
+      // Readout box in the top-left corner of the plot
+      const rowHeight = 14;
+      const maxRows = Math.max(0, Math.floor((height - PADDING.top - PADDING.bottom - 24) / rowHeight));
+      const rows = readings.slice(0, maxRows);
+      const boxX = PADDING.left + 6;
+      const boxY = PADDING.top + 4;
+      ctx.font = "600 10px 'JetBrains Mono', monospace";
+      const texts = rows.map((row) => `${row.label ? `${row.label}: ` : ''}${row.value.toFixed(2)}`);
+      const boxWidth = Math.max(70, ...texts.map((text) => ctx.measureText(text).width + 24));
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.strokeStyle = '#e0daf0';
+      ctx.lineWidth = 1;
+      ctx.fillRect(boxX, boxY, boxWidth, rowHeight * (rows.length + 1) + 6);
+      ctx.strokeRect(boxX + 0.5, boxY + 0.5, boxWidth - 1, rowHeight * (rows.length + 1) + 5);
+      ctx.textAlign = 'left';
+      ctx.fillStyle = '#3a3050';
+      ctx.fillText(`${xSymbol} = ${hoverTime.toFixed(2)} ${xUnit}`, boxX + 6, boxY + 14);
+      rows.forEach((row, index) => {
+        const rowY = boxY + 14 + (index + 1) * rowHeight;
+        ctx.fillStyle = row.color;
+        ctx.beginPath();
+        ctx.arc(boxX + 10, rowY - 3, 3.5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#5a4f6e';
+        ctx.fillText(texts[index], boxX + 18, rowY);
+      });
+    }
+  }, [title, lines, xLabel, yLabel, xSymbol, xUnit, width, height, plot, hoverTime, pointerY, tangentTime, areaRange]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) draw(ctx, pixelRatio);
+  }, [draw, pixelRatio]);
+
+  const handleExport = async (format: ImageExportFormat) => {
+    if (format === 'svg') {
+      downloadFile(getFileName(title, 'svg'), renderToSvg(width, height, draw), 'image/svg+xml');
+    } else {
+      downloadFile(getFileName(title, 'png'), await renderToPng(width, height, IMAGE_EXPORT_SCALE, draw), 'image/png');
+    }
+  };
+
+  const setHoverTime = (time: number | null) => {
+    setLocalHoverTime(time);
+    onHoverTimeChange?.(time);
+  };
+
+  const handlePointerLeave = () => {
+    setHoverTime(null);
+    setPointerY(null);
+  };
+
+  /**
+   * Time under the pointer, snapped to the nearest sample of the first line,
+   * or null when the pointer is outside the plot
+   */
+  const getPointerTime = (event: React.PointerEvent<HTMLCanvasElement> | React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = (event.clientX - rect.left) * (width / rect.width);
+    const time = (x - PADDING.left) / plot.scaleX;
+    const primary = lines.find((line) => line.data.length > 0);
+    if (!primary || x < PADDING.left || x > width - PADDING.right || time > plot.dataMaxX) return null;
+    return nearestSample(primary.data, time, true)?.time ?? time;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const time = getPointerTime(event);
+    if (time === null) {
+      handlePointerLeave();
+      return;
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    setHoverTime(time);
+    setPointerY((event.clientY - rect.top) * (height / rect.height));
+  };
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const time = getPointerTime(event);
+    if (time !== null) onPickTime?.(time);
+  };
+
 
   return (
-    <canvas
-      ref={canvasRef}
-      width={width}
-      height={height}
-      className="rounded-xl border border-border"
-    />
+    <div ref={containerRef} className="relative rounded-xl border border-border overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        width={Math.round(width * pixelRatio)}
+        height={Math.round(height * pixelRatio)}
+        style={{ width, height }}
+        className="block max-w-full touch-pan-y cursor-crosshair"
+        aria-label={title}
+        onPointerMove={handlePointerMove}
+        onPointerDown={handlePointerMove}
+        onPointerLeave={handlePointerLeave}
+        onPointerCancel={handlePointerLeave}
+        onClick={handleClick}
+      />
+      <div className="absolute top-1 right-1">
+        <ImageExportMenu formats={['png', 'svg']} onExport={handleExport} className="h-7 w-7" />
+      </div>
+    </div>
   );
 };
 
+/**
+ * The sample closest in time, by binary search (data is in time order).
+ * Returns null when `time` falls outside the line, unless `clamp` is set.
+ */
+function nearestSample(data: DataPoint[], time: number, clamp: boolean = false): DataPoint | null {
+  if (data.length === 0) return null;
+  const first = data[0];
+  const last = data[data.length - 1];
+  if (!clamp && (time < first.time - 1e-9 || time > last.time + 1e-9)) return null;
+  if (time <= first.time) return first;
+  if (time >= last.time) return last;
+
+  let low = 0;
+  let high = data.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (data[mid].time <= time) low = mid;
+    else high = mid;
+  }
+  return time - data[low].time <= data[high].time - time ? data[low] : data[high];
+}
+
 function calculateNiceStep(maxValue: number, targetSteps: number): number {
   if (maxValue <= 0) return 1;
   const roughStep = maxValue / targetSteps;
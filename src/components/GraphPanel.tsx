@@ -1,53 +1,387 @@
 /**
- * GraphPanel.tsx - Container for displacement-time and velocity-time graphs
- * 
- * Displays the motion graphs side by side with educational annotations.
+ * GraphPanel.tsx - Container for the motion graphs
+ *
+ * Displays the chosen motion graphs side by side with educational annotations:
+ * displacement-time and velocity-time by default, plus the path (y vs x),
+ * speed, acceleration and energy graphs.
+ * Other projectiles in the same launch get solid lines in their own colours;
+ * saved runs are overlaid as thin dashed lines. The time graphs share one
+ * hovered time, so pointing at a moment on one marks it on the others.
+ * The tangent and area tools measure the current launch's lines on every
+ * graph against time.
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
 import Graph from './Graph';
-import { TrajectoryData, CalculatedResults, DataPoint } from '../physics/types';
+import GraphTools from './GraphTools';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { DEFAULT_GRAPHS, LIMITS } from '../physics/constants';
+import { calculateAcceleration } from '../physics/drag';
+import { calculateEnergy, calculateLaunchEnergy, calculateLaunchVelocity, getMass } from '../physics/energy';
+import {
+  TrajectoryData,
+  CalculatedResults,
+  CompanionProjectile,
+  DataPoint,
+  GraphKind,
+  GraphTool,
+  LaunchParameters,
+  SavedRun,
+  TimeRange,
+  Vector2D,
+} from '../physics/types';
 
 interface GraphPanelProps {
   trajectory: TrajectoryData;
   results: CalculatedResults;
+  params: LaunchParameters;   // For the acceleration and energy graphs
+  onMassChange?: (mass: number) => void; // Mass input shown with the energy graph
+  massDisabled?: boolean;
+  ghostRuns?: SavedRun[]; // Previous runs drawn for comparison
+  companions?: CompanionProjectile[]; // Other projectiles in this launch
+  hoverTime?: number | null;  // Time pointed at on any time graph (s)
+  onHoverTimeChange?: (time: number | null) => void;
+}
+
+// A launch other than the current one, drawn in a single colour
+interface OtherLaunch {
+  trajectory: TrajectoryData;
+  params: LaunchParameters;
+  results: CalculatedResults;
+  endTime: number;            // Seconds after the main launch that it lands
+  color: string;
+  label: string;
+  dashed?: boolean;
+}
+
+interface GraphLineProps {
+  data: DataPoint[];
+  color: string;
+  label: string;
+  dashed?: boolean;
+  measured?: boolean;
+}
+
+interface GraphDefinition {
+  title: string;
+  lines: GraphLineProps[];
+  xLabel: string;
+  yLabel: string;
+  maxX: number;
+  maxY: number;
+  minY?: number;
+  isTimeGraph: boolean;       // x-axis is time (shares hover and the measuring tools)
+  hint: string;
+}
+
+const GRAPH_OPTIONS: { kind: GraphKind; label: string }[] = [
+  { kind: 'displacement', label: 'x, y – t' },
+  { kind: 'velocity', label: 'vₓ, vᵧ – t' },
+  { kind: 'trajectory', label: 'y – x' },
+  { kind: 'speed', label: '|v| – t' },
+  { kind: 'acceleration', label: 'a – t' },
+  { kind: 'energy', label: 'Energy – t' },
+];
+
+const NO_RUNS: SavedRun[] = [];
+
+const NO_COMPANIONS: CompanionProjectile[] = [];
+
+/**
+ * One component of a recorded vector quantity against time
+ */
+function toSeries(times: number[], vectors: Vector2D[], component: keyof Vector2D): DataPoint[] {
+  return times.map((time, i) => ({ time, value: vectors[i]?.[component] || 0 }));
+}
+
+/**
+ * Height against horizontal distance (the `time` field holds x)
+ */
+function toPathSeries(trajectory: TrajectoryData): DataPoint[] {
+  return trajectory.positions.map((position) => ({ time: position.x, value: position.y }));
+}
+
+/**
+ * Speed |v| against time
+ */
+function toSpeedSeries(trajectory: TrajectoryData): DataPoint[] {
+  return trajectory.times.map((time, i) => {
+    const velocity = trajectory.velocities[i];
+    return { time, value: velocity ? Math.hypot(velocity.x, velocity.y) : 0 };
+  });
+}
+
+/**
+ * Acceleration (gravity plus any air resistance) at each sample
+ */
+function toAccelerations(trajectory: TrajectoryData, params: LaunchParameters): Vector2D[] {
+  return trajectory.velocities.map((velocity) => calculateAcceleration(velocity, params));
+}
+
+/**
+ * Kinetic, potential and total energy against time
+ */
+function toEnergySeries(trajectory: TrajectoryData, params: LaunchParameters) {
+  const mass = getMass(params);
+  const energies = trajectory.times.map((time, i) => ({
+    time,
+    energy: calculateEnergy(trajectory.positions[i], trajectory.velocities[i], mass, params.gravity),
+  }));
+  return {
+    kinetic: energies.map(({ time, energy }) => ({ time, value: energy.kinetic })),
+    potential: energies.map(({ time, energy }) => ({ time, value: energy.potential })),
+    total: energies.map(({ time, energy }) => ({ time, value: energy.total })),
+  };
+}
+
+/**
+ * Both components of each other launch, labelled once in the legend
+ */
+function toComponentLines(
+  launches: OtherLaunch[],
+  getVectors: (launch: OtherLaunch) => Vector2D[]
+): GraphLineProps[] {
+  return launches.flatMap((launch) => {
+    const { times } = launch.trajectory;
+    const vectors = getVectors(launch);
+    return [
+      { data: toSeries(times, vectors, 'x'), color: launch.color, label: launch.label, dashed: launch.dashed },
+      { data: toSeries(times, vectors, 'y'), color: launch.color, label: '', dashed: launch.dashed },
+    ];
+  });
+}
+
+/**
+ * One line per other launch, labelled with its name
+ */
+function toSingleLines(
+  launches: OtherLaunch[],
+  getData: (launch: OtherLaunch) => DataPoint[]
+): GraphLineProps[] {
+  return launches.map((launch) => ({
+    data: getData(launch),
+    color: launch.color,
+    label: launch.label,
+    dashed: launch.dashed,
+  }));
+}
+
+/**
+ * Strongest acceleration of a launch (most negative component, m/s²).
+ * Air resistance is largest at launch, when the projectile is fastest.
+ */
+function calculateMinAcceleration(params: LaunchParameters): number {
+  const acceleration = calculateAcceleration(calculateLaunchVelocity(params), params);
+  return Math.min(acceleration.x, acceleration.y, -params.gravity);
 }
 
 export const GraphPanel: React.FC<GraphPanelProps> = ({
   trajectory,
   results,
+  params,
+  onMassChange,
+  massDisabled = false,
+  ghostRuns = NO_RUNS,
+  companions = NO_COMPANIONS,
+  hoverTime,
+  onHoverTimeChange,
 }) => {
+  const [selectedGraphs, setSelectedGraphs] = useState<GraphKind[]>(DEFAULT_GRAPHS);
+
+  // Measuring tools: one tangent time, or a start and end time for the area
+  const [tool, setTool] = useState<GraphTool>('none');
+  const [tangentTime, setTangentTime] = useState<number | null>(null);
+  const [areaRange, setAreaRange] = useState<TimeRange | null>(null);
+
+  const handleGraphsChange = (values: string[]) => {
+    // Keep at least one graph, in library order
+    if (values.length === 0) return;
+    setSelectedGraphs(GRAPH_OPTIONS.map(({ kind }) => kind).filter((kind) => values.includes(kind)));
+  };
+
+  const handleToolChange = (newTool: GraphTool) => {
+    setTool(newTool);
+    setTangentTime(null);
+    setAreaRange(null);
+  };
+
+  const handlePickTime = (time: number) => {
+    if (tool === 'tangent') {
+      setTangentTime(time);
+    } else if (tool === 'area') {
+      // A third click starts a new area
+      setAreaRange((prev) => (prev && prev.end === null ? { ...prev, end: time } : { start: time, end: null }));
+    }
+  };
+
+  const handleMassChange = (value: number) => {
+    onMassChange?.(Math.max(LIMITS.mass.min, Math.min(LIMITS.mass.max, value)));
+  };
+
   // Convert trajectory data to graph data points
-  const displacementData = useMemo(() => {
-    const xData: DataPoint[] = trajectory.times.map((time, i) => ({
-      time,
-      value: trajectory.positions[i]?.x || 0,
-    }));
-
-    const yData: DataPoint[] = trajectory.times.map((time, i) => ({
-      time,
-      value: trajectory.positions[i]?.y || 0,
-    }));
-
-    return { xData, yData };
-  }, [trajectory]);
-
-  const velocityData = useMemo(() => {
-    const vxData: DataPoint[] = trajectory.times.map((time, i) => ({
-      time,
-      value: trajectory.velocities[i]?.x || 0,
-    }));
-
-    const vyData: DataPoint[] = trajectory.times.map((time, i) => ({
-      time,
-      value: trajectory.velocities[i]?.y || 0,
-    }));
-
-    return { vxData, vyData };
-  }, [trajectory]);
+  const displacementData = useMemo(() => ({
+    xData: toSeries(trajectory.times, trajectory.positions, 'x'),
+    yData: toSeries(trajectory.times, trajectory.positions, 'y'),
+  }), [trajectory]);
+
+  const velocityData = useMemo(() => ({
+    vxData: toSeries(trajectory.times, trajectory.velocities, 'x'),
+    vyData: toSeries(trajectory.times, trajectory.velocities, 'y'),
+  }), [trajectory]);
+
+  const speedData = useMemo(() => toSpeedSeries(trajectory), [trajectory]);
+
+  const accelerationData = useMemo(() => {
+    const accelerations = toAccelerations(trajectory, params);
+    return {
+      axData: toSeries(trajectory.times, accelerations, 'x'),
+      ayData: toSeries(trajectory.times, accelerations, 'y'),
+    };
+  }, [trajectory, params]);
+
+  const energyData = useMemo(() => toEnergySeries(trajectory, params), [trajectory, params]);
+
+  // Companions first, then saved runs as dashed lines
+  const others = useMemo<OtherLaunch[]>(() => [
+    ...companions.map((companion) => ({
+      trajectory: companion.trajectory,
+      params: companion.params,
+      results: companion.results,
+      endTime: (companion.startDelay ?? 0) + companion.results.timeOfFlight,
+      color: companion.color,
+      label: companion.label,
+    })),
+    ...ghostRuns.map((run) => ({
+      trajectory: run.trajectory,
+      params: run.params,
+      results: run.results,
+      endTime: run.results.timeOfFlight,
+      color: run.color,
+      label: `Run ${run.id}`,
+      dashed: true,
+    })),
+  ], [companions, ghostRuns]);
+
+  const graphs = useMemo<Record<GraphKind, GraphDefinition>>(() => {
+    // Axis limits cover the current launch, its companions and every saved run
+    const allResults = [results, ...others.map((other) => other.results)];
+    const allParams = [params, ...others.map((other) => other.params)];
+    const maxTime = Math.max(
+      results.timeOfFlight * 1.1,
+      ...others.map((other) => other.endTime * 1.1),
+      1
+    );
+    const maxDisplacement = Math.max(...allResults.map((r) => Math.max(r.horizontalRange, r.maxHeight)));
+    const maxVelocity = Math.max(...allResults.map((r) => Math.max(r.initialVelocityX, r.initialVelocityY)));
+    const minVelocity = Math.min(...allResults.map((r) => r.finalVelocityY), 0);
+    const maxRange = Math.max(...allResults.map((r) => r.horizontalRange), 1);
+    const maxHeight = Math.max(...allResults.map((r) => r.maxHeight), 1);
+    const maxSpeed = Math.max(...allResults.map((r) => Math.hypot(
+      r.initialVelocityX,
+      Math.max(r.initialVelocityY, Math.abs(r.finalVelocityY))
+    )), 1);
+    const minAcceleration = Math.min(...allParams.map(calculateMinAcceleration));
+    const maxEnergy = Math.max(...allParams.map(calculateLaunchEnergy), 1);
+
+    return {
+      displacement: {
+        title: 'Displacement vs Time',
+        lines: [
+          { data: displacementData.xData, color: '#a48bc6', label: 'x (horizontal)', measured: true },
+          { data: displacementData.yData, color: '#7cc9a0', label: 'y (vertical)', measured: true },
+          ...toComponentLines(others, (other) => other.trajectory.positions),
+        ],
+        xLabel: 'Time (s)',
+        yLabel: 'Displacement (m)',
+        maxX: maxTime,
+        maxY: maxDisplacement * 1.2,
+        isTimeGraph: true,
+        hint: '💡 Slope of displacement graph = velocity',
+      },
+      velocity: {
+        title: 'Velocity vs Time',
+        lines: [
+          { data: velocityData.vxData, color: '#f0a050', label: 'vₓ (horizontal)', measured: true },
+          { data: velocityData.vyData, color: '#e88a7a', label: 'vᵧ (vertical)', measured: true },
+          ...toComponentLines(others, (other) => other.trajectory.velocities),
+        ],
+        xLabel: 'Time (s)',
+        yLabel: 'Velocity (m/s)',
+        maxX: maxTime,
+        maxY: maxVelocity * 1.3,
+        minY: minVelocity * 1.3,
+        isTimeGraph: true,
+        hint: '💡 Slope of velocity graph = acceleration • Area under graph = displacement',
+      },
+      trajectory: {
+        title: 'Height vs Distance',
+        lines: [
+          { data: toPathSeries(trajectory), color: '#e88a7a', label: 'Path' },
+          ...toSingleLines(others, (other) => toPathSeries(other.trajectory)),
+        ],
+        xLabel: 'Distance x (m)',
+        yLabel: 'Height y (m)',
+        maxX: maxRange,
+        maxY: maxHeight,
+        isTimeGraph: false,
+        hint: '💡 Without air resistance the path is a parabola',
+      },
+      speed: {
+        title: 'Speed vs Time',
+        lines: [
+          { data: speedData, color: '#6a7fdb', label: '|v|', measured: true },
+          ...toSingleLines(others, (other) => toSpeedSeries(other.trajectory)),
+        ],
+        xLabel: 'Time (s)',
+        yLabel: 'Speed (m/s)',
+        maxX: maxTime,
+        maxY: maxSpeed,
+        isTimeGraph: true,
+        hint: '💡 Slowest at the top, where only vₓ is left',
+      },
+      acceleration: {
+        title: 'Acceleration vs Time',
+        lines: [
+          { data: accelerationData.axData, color: '#f0a050', label: 'aₓ (horizontal)', measured: true },
+          { data: accelerationData.ayData, color: '#d46a6a', label: 'aᵧ (vertical)', measured: true },
+          ...toComponentLines(others, (other) => toAccelerations(other.trajectory, other.params)),
+        ],
+        xLabel: 'Time (s)',
+        yLabel: 'Acceleration (m/s²)',
+        maxX: maxTime,
+        maxY: Math.abs(minAcceleration) * 0.3,
+        minY: minAcceleration * 1.1,
+        isTimeGraph: true,
+        hint: '💡 Without air resistance aₓ = 0 and aᵧ = −g for the whole flight',
+      },
+      energy: {
+        title: 'Energy vs Time',
+        lines: [
+          { data: energyData.kinetic, color: '#f0a050', label: 'Kinetic', measured: true },
+          { data: energyData.potential, color: '#7cc9a0', label: 'Potential', measured: true },
+          { data: energyData.total, color: '#a48bc6', label: 'Total', measured: true },
+          ...toSingleLines(others, (other) => toEnergySeries(other.trajectory, other.params).total),
+        ],
+        xLabel: 'Time (s)',
+        yLabel: 'Energy (J)',
+        maxX: maxTime,
+        maxY: maxEnergy,
+        isTimeGraph: true,
+        hint: '💡 Without air resistance the total energy stays constant',
+      },
+    };
+  }, [trajectory, params, results, others, displacementData, velocityData, speedData, accelerationData, energyData]);
 
   const hasData = trajectory.times.length > 0;
-  const maxTime = Math.max(results.timeOfFlight * 1.1, 1);
+
+  const toolProps = {
+    tangentTime: tool === 'tangent' ? tangentTime : null,
+    areaRange: tool === 'area' ? areaRange : null,
+    onPickTime: handlePickTime,
+  };
 
   return (
     <div className="lab-section space-y-4">
@@ -60,49 +394,86 @@ export const GraphPanel: React.FC<GraphPanelProps> = ({
         These graphs help visualize how position and velocity change over time.
       </p>
 
-      <div className="grid lg:grid-cols-2 gap-4">
-        {/* Displacement-Time Graph */}
-        <div className="space-y-2">
-          <Graph
-            title="Displacement vs Time"
-            lines={[
-              { data: displacementData.xData, color: '#a48bc6', label: 'x (horizontal)' },
-              { data: displacementData.yData, color: '#7cc9a0', label: 'y (vertical)' },
-            ]}
-            xLabel="Time (s)"
-            yLabel="Displacement (m)"
-            width={380}
-            height={220}
-            maxX={maxTime}
-            maxY={Math.max(results.horizontalRange, results.maxHeight) * 1.2}
-          />
-          <p className="text-xs text-muted-foreground text-center">
-            💡 Slope of displacement graph = velocity
-          </p>
-        </div>
+      {/* Graph library */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-muted-foreground flex items-center gap-1">
+          <BarChart3 className="w-4 h-4" />
+          Show
+        </span>
+        <ToggleGroup type="multiple" size="sm" value={selectedGraphs} onValueChange={handleGraphsChange}>
+          {GRAPH_OPTIONS.map(({ kind, label }) => (
+            <ToggleGroupItem key={kind} value={kind} className="text-xs px-2">
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        {selectedGraphs.includes('energy') && onMassChange && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="graph-mass" className="text-xs text-muted-foreground">Mass (kg)</Label>
+            <Input
+              id="graph-mass"
+              type="number"
+              value={getMass(params)}
+              onChange={(e) => handleMassChange(parseFloat(e.target.value) || LIMITS.mass.min)}
+              min={LIMITS.mass.min}
+              max={LIMITS.mass.max}
+              step={0.01}
+              disabled={massDisabled}
+              className="lab-input w-24 h-8 text-center"
+            />
+          </div>
+        )}
+      </div>
 
-        {/* Velocity-Time Graph */}
-        <div className="space-y-2">
-          <Graph
-            title="Velocity vs Time"
-            lines={[
-              { data: velocityData.vxData, color: '#f0a050', label: 'vₓ (horizontal)' },
-              { data: velocityData.vyData, color: '#e88a7a', label: 'vᵧ (vertical)' },
-            ]}
-            xLabel="Time (s)"
-            yLabel="Velocity (m/s)"
-            width={380}
-            height={220}
-            maxX={maxTime}
-            maxY={Math.max(results.initialVelocityX, results.initialVelocityY) * 1.3}
-            minY={-results.initialVelocityY * 1.3}
-          />
-          <p className="text-xs text-muted-foreground text-center">
-            💡 Slope of velocity graph = acceleration • Area under graph = displacement
-          </p>
-        </div>
+      <div className="grid lg:grid-cols-2 gap-4">
+        {selectedGraphs.map((kind) => {
+          const graph = graphs[kind];
+          return (
+            <div key={kind} className="space-y-2">
+              <Graph
+                title={graph.title}
+                lines={graph.lines}
+                xLabel={graph.xLabel}
+                yLabel={graph.yLabel}
+                xSymbol={graph.isTimeGraph ? 't' : 'x'}
+                xUnit={graph.isTimeGraph ? 's' : 'm'}
+                width={380}
+                height={220}
+                maxX={graph.maxX}
+                maxY={graph.maxY}
+                minY={graph.minY}
+                {...(graph.isTimeGraph ? { hoverTime, onHoverTimeChange, ...toolProps } : {})}
+              />
+              <p className="text-xs text-muted-foreground text-center">
+                {graph.hint}
+              </p>
+            </div>
+          );
+        })}
       </div>
 
+      <GraphTools
+        tool={tool}
+        onToolChange={handleToolChange}
+        tangentTime={tangentTime}
+        areaRange={areaRange}
+        graphs={selectedGraphs}
+        series={{
+          x: displacementData.xData,
+          y: displacementData.yData,
+          vx: velocityData.vxData,
+          vy: velocityData.vyData,
+          speed: speedData,
+          ax: accelerationData.axData,
+          ay: accelerationData.ayData,
+          kinetic: energyData.kinetic,
+          potential: energyData.potential,
+          total: energyData.total,
+        }}
+        mass={getMass(params)}
+        gravity={params.gravity}
+      />
+
       {!hasData && (
         <div className="text-center py-8 text-muted-foreground">
           Launch the projectile to see the graphs
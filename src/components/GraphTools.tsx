@@ -0,0 +1,318 @@
+/**
+ * GraphTools.tsx - Tangent and area tools for the motion graphs
+ *
+ * Lets students check the graph rules numerically:
+ * - the slope of the x–t and y–t graphs is the velocity
+ * - the slope of the v–t graphs is the acceleration
+ * - the slope of the |v|–t graph is the acceleration along the path
+ * - the slope of the energy graphs is the power (rate of energy change)
+ * - the area under the v–t graphs is the displacement
+ * - the area under the |v|–t graph is the distance along the path
+ * - the area under the a–t graphs is the change in velocity
+ *
+ * The tools work on every graph against time. The times are picked by
+ * clicking any of them; readings are given for each time graph on show,
+ * compared with the velocities, accelerations and positions recorded in
+ * the trajectory.
+ */
+
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { areaUnder, pathLength, slopeAt, valueAt } from '../physics/calculus';
+import { DECIMAL_PLACES } from '../physics/constants';
+import { DataPoint, GraphKind, GraphTool, TimeRange } from '../physics/types';
+
+// The current launch's lines on every time graph
+interface GraphSeries {
+  x: DataPoint[];
+  y: DataPoint[];
+  vx: DataPoint[];
+  vy: DataPoint[];
+  speed: DataPoint[];
+  ax: DataPoint[];
+  ay: DataPoint[];
+  kinetic: DataPoint[];
+  potential: DataPoint[];
+  total: DataPoint[];
+}
+
+interface GraphToolsProps {
+  tool: GraphTool;
+  onToolChange: (tool: GraphTool) => void;
+  tangentTime: number | null;
+  areaRange: TimeRange | null;
+  graphs: GraphKind[]; // Graphs on show; the tools read the time graphs among them
+  series: GraphSeries;
+  mass: number;    // For the energy graphs (kg)
+  gravity: number; // m/s²
+}
+
+interface Reading {
+  label: string;
+  measured: string;
+  expected: string;
+}
+
+const format = (value: number, unit: string) => `${value.toFixed(DECIMAL_PLACES)} ${unit}`;
+
+const NOT_WITHOUT_DRAG = '0 without drag';
+
+// Areas with no simple quantity to check them against
+const NO_RULE = '—';
+
+/**
+ * Slopes of the lines on one graph at `time`, with what they should equal
+ */
+function getTangentReadings(
+  kind: GraphKind,
+  series: GraphSeries,
+  time: number,
+  mass: number,
+  gravity: number
+): Reading[] {
+  const vx = valueAt(series.vx, time);
+  const vy = valueAt(series.vy, time);
+  const ax = valueAt(series.ax, time);
+  const ay = valueAt(series.ay, time);
+  const speed = Math.hypot(vx, vy);
+  const power = ax * vx + ay * vy; // a·v, the rate of change of ½v²
+
+  switch (kind) {
+    case 'displacement':
+      return [
+        {
+          label: 'Slope of x–t',
+          measured: format(slopeAt(series.x, time), 'm/s'),
+          expected: `vₓ = ${format(vx, 'm/s')}`,
+        },
+        {
+          label: 'Slope of y–t',
+          measured: format(slopeAt(series.y, time), 'm/s'),
+          expected: `vᵧ = ${format(vy, 'm/s')}`,
+        },
+      ];
+    case 'velocity':
+      return [
+        {
+          label: 'Slope of vₓ–t',
+          measured: format(slopeAt(series.vx, time), 'm/s²'),
+          expected: `aₓ = ${format(ax, 'm/s²')}`,
+        },
+        {
+          label: 'Slope of vᵧ–t',
+          measured: format(slopeAt(series.vy, time), 'm/s²'),
+          expected: `aᵧ = ${format(ay, 'm/s²')}`,
+        },
+      ];
+    case 'speed':
+      return [
+        {
+          label: 'Slope of |v|–t',
+          measured: format(slopeAt(series.speed, time), 'm/s²'),
+          expected: `a·v / |v| = ${format(speed > 0 ? power / speed : 0, 'm/s²')}`,
+        },
+      ];
+    case 'acceleration':
+      return [
+        {
+          label: 'Slope of aₓ–t',
+          measured: format(slopeAt(series.ax, time), 'm/s³'),
+          expected: NOT_WITHOUT_DRAG,
+        },
+        {
+          label: 'Slope of aᵧ–t',
+          measured: format(slopeAt(series.ay, time), 'm/s³'),
+          expected: NOT_WITHOUT_DRAG,
+        },
+      ];
+    case 'energy':
+      return [
+        {
+          label: 'Slope of kinetic–t',
+          measured: format(slopeAt(series.kinetic, time), 'W'),
+          expected: `m a·v = ${format(mass * power, 'W')}`,
+        },
+        {
+          label: 'Slope of potential–t',
+          measured: format(slopeAt(series.potential, time), 'W'),
+          expected: `m g vᵧ = ${format(mass * gravity * vy, 'W')}`,
+        },
+        {
+          label: 'Slope of total–t',
+          measured: format(slopeAt(series.total, time), 'W'),
+          expected: NOT_WITHOUT_DRAG,
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Areas under the lines on one graph from `from` to `to`, with what they should equal
+ */
+function getAreaReadings(kind: GraphKind, series: GraphSeries, from: number, to: number): Reading[] {
+  const change = (data: DataPoint[]) => valueAt(data, to) - valueAt(data, from);
+
+  switch (kind) {
+    case 'displacement':
+      return [
+        {
+          label: 'Area under x–t',
+          measured: format(areaUnder(series.x, from, to), 'm·s'),
+          expected: NO_RULE,
+        },
+        {
+          label: 'Area under y–t',
+          measured: format(areaUnder(series.y, from, to), 'm·s'),
+          expected: NO_RULE,
+        },
+      ];
+    case 'velocity':
+      return [
+        {
+          label: 'Area under vₓ–t',
+          measured: format(areaUnder(series.vx, from, to), 'm'),
+          expected: `Δx = ${format(change(series.x), 'm')}`,
+        },
+        {
+          label: 'Area under vᵧ–t',
+          measured: format(areaUnder(series.vy, from, to), 'm'),
+          expected: `Δy = ${format(change(series.y), 'm')}`,
+        },
+      ];
+    case 'speed':
+      return [
+        {
+          label: 'Area under |v|–t',
+          measured: format(areaUnder(series.speed, from, to), 'm'),
+          expected: `Path length = ${format(pathLength(series.x, series.y, from, to), 'm')}`,
+        },
+      ];
+    case 'acceleration':
+      return [
+        {
+          label: 'Area under aₓ–t',
+          measured: format(areaUnder(series.ax, from, to), 'm/s'),
+          expected: `Δvₓ = ${format(change(series.vx), 'm/s')}`,
+        },
+        {
+          label: 'Area under aᵧ–t',
+          measured: format(areaUnder(series.ay, from, to), 'm/s'),
+          expected: `Δvᵧ = ${format(change(series.vy), 'm/s')}`,
+        },
+      ];
+    case 'energy':
+      return [
+        {
+          label: 'Area under kinetic–t',
+          measured: format(areaUnder(series.kinetic, from, to), 'J·s'),
+          expected: NO_RULE,
+        },
+        {
+          label: 'Area under potential–t',
+          measured: format(areaUnder(series.potential, from, to), 'J·s'),
+          expected: NO_RULE,
+        },
+        {
+          label: 'Area under total–t',
+          measured: format(areaUnder(series.total, from, to), 'J·s'),
+          expected: NO_RULE,
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+export const GraphTools: React.FC<GraphToolsProps> = ({
+  tool,
+  onToolChange,
+  tangentTime,
+  areaRange,
+  graphs,
+  series,
+  mass,
+  gravity,
+}) => {
+  const hasData = series.x.length > 1;
+
+  let caption = '';
+  let readings: Reading[] = [];
+
+  if (tool === 'tangent') {
+    caption = 'Click a graph to draw the tangent at that time.';
+    if (hasData && tangentTime !== null) {
+      caption = `Tangent at t = ${tangentTime.toFixed(2)} s`;
+      readings = graphs.flatMap((kind) => getTangentReadings(kind, series, tangentTime, mass, gravity));
+    }
+  }
+
+  if (tool === 'area') {
+    caption = 'Click a graph twice to pick the start and end times.';
+    if (hasData && areaRange) {
+      if (areaRange.end === null) {
+        caption = `From t = ${areaRange.start.toFixed(2)} s — now click the end time.`;
+      } else {
+        const { start, end } = areaRange;
+        const from = Math.min(start, end);
+        const to = Math.max(start, end);
+        caption = `Area from t = ${from.toFixed(2)} s to t = ${to.toFixed(2)} s`;
+        readings = graphs.flatMap((kind) => getAreaReadings(kind, series, from, to));
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-muted-foreground flex items-center gap-1">
+          <Ruler className="w-4 h-4" />
+          Measure
+        </span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={tool === 'none' ? '' : tool}
+          onValueChange={(value) => onToolChange((value || 'none') as GraphTool)}
+        >
+          <ToggleGroupItem value="tangent" className="text-xs px-2">Tangent (slope)</ToggleGroupItem>
+          <ToggleGroupItem value="area" className="text-xs px-2">Area under graph</ToggleGroupItem>
+        </ToggleGroup>
+        {tool !== 'none' && (
+          <span className="text-xs text-muted-foreground">
+            {graphs.some((kind) => kind !== 'trajectory')
+              ? caption
+              : 'The tools measure graphs against time; the y–x path has no time axis, so show another graph.'}
+          </span>
+        )}
+      </div>
+
+      {readings.length > 0 && (
+        <div className="overflow-hidden rounded-lg border border-border">
+          <table className="w-full text-sm">
+            <thead className="bg-secondary/70">
+              <tr>
+                <th className="text-left py-2 px-3 font-medium text-foreground">Measured on graph</th>
+                <th className="text-right py-2 px-3 font-medium text-foreground">Value</th>
+                <th className="text-right py-2 px-3 font-medium text-foreground">From trajectory</th>
+              </tr>
+            </thead>
+            <tbody>
+              {readings.map((reading, index) => (
+                <tr key={reading.label} className={index % 2 === 0 ? 'bg-card' : 'bg-secondary/30'}>
+                  <td className="py-2 px-3 text-muted-foreground">{reading.label}</td>
+                  <td className="py-2 px-3 text-right mono text-foreground">{reading.measured}</td>
+                  <td className="py-2 px-3 text-right mono text-muted-foreground">{reading.expected}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphTools;
@@ -0,0 +1,104 @@
+/**
+ * ImageExportMenu.tsx - Save button for the canvas and graphs
+ *
+ * Lists the formats a drawing can be saved in. Animations take a few
+ * seconds to build, so the button shows their progress meanwhile.
+ */
+
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { toast } from '../hooks/use-toast';
+import { ImageExportFormat } from '../physics/types';
+
+interface ImageExportMenuProps {
+  formats: ImageExportFormat[];
+  onExport: (format: ImageExportFormat) => Promise<void>;
+  progress?: number | null;              // Fraction of an animation built so far
+  disabledFormats?: ImageExportFormat[]; // Listed but not available yet
+  disabledHint?: string;                 // Why they aren't available
+  className?: string;
+}
+
+const FORMAT_LABELS: Record<ImageExportFormat, string> = {
+  png: 'PNG image (high resolution)',
+  svg: 'SVG (vector, for editing)',
+  gif: 'Animated GIF of the flight',
+  webm: 'WebM video of the flight',
+};
+
+export const ImageExportMenu: React.FC<ImageExportMenuProps> = ({
+  formats,
+  onExport,
+  progress = null,
+  disabledFormats = [],
+  disabledHint,
+  className = 'h-8 w-8',
+}) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ImageExportFormat) => {
+    setIsExporting(true);
+    try {
+      await onExport(format);
+    } catch (error) {
+      toast({
+        title: `Could not save the ${format.toUpperCase()}`,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isExporting) {
+    return (
+      <Button size="icon" variant="secondary" className={className} disabled aria-label="Saving" title="Saving…">
+        {progress !== null ? (
+          <span className="text-[10px] font-mono">{Math.round(progress * 100)}%</span>
+        ) : (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        )}
+      </Button>
+    );
+  }
+
+  const hasDisabled = formats.some((format) => disabledFormats.includes(format));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="icon" variant="secondary" className={className} aria-label="Save as image" title="Save as image">
+          <Download className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Save as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {formats.map((format) => (
+          <DropdownMenuItem
+            key={format}
+            disabled={disabledFormats.includes(format)}
+            onSelect={() => handleExport(format)}
+          >
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+        {hasDisabled && disabledHint && (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground max-w-[14rem]">{disabledHint}</p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ImageExportMenu;
@@ -0,0 +1,144 @@
+/**
+ * NumericalMethodsPanel.tsx - Choose how the simulation steps through time
+ *
+ * Lets students swap the exact equations for a numerical integrator and
+ * see how much error each method builds up at different step sizes.
+ */
+
+import React, { useMemo } from 'react';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
+import { compareIntegrators, NUMERICAL_METHODS } from '../physics/integrators';
+import { INTEGRATOR_LABELS, INTEGRATOR_TIME_STEPS } from '../physics/constants';
+import { IntegratorMethod, IntegratorSettings, LaunchParameters } from '../physics/types';
+
+interface NumericalMethodsPanelProps {
+  params: LaunchParameters;
+  integrator: IntegratorSettings;
+  onIntegratorChange: (integrator: IntegratorSettings) => void;
+  positionError: number;
+  disabled?: boolean;
+}
+
+export const NumericalMethodsPanel: React.FC<NumericalMethodsPanelProps> = ({
+  params,
+  integrator,
+  onIntegratorChange,
+  positionError,
+  disabled = false,
+}) => {
+  // Error of every method at every step size for the current launch
+  const errorTable = useMemo(
+    () => compareIntegrators(params, INTEGRATOR_TIME_STEPS),
+    [params]
+  );
+
+  const isNumerical = integrator.method !== 'analytic';
+
+  return (
+    <div className="lab-section space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground">Numerical Methods</h3>
+        <span className="phase-badge phase-simulate">Simulate</span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Computers usually solve motion in small time steps. Pick a method and step size to see how far it drifts from the exact answer.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Method</Label>
+          <Select
+            value={integrator.method}
+            onValueChange={(value) => onIntegratorChange({ ...integrator, method: value as IntegratorMethod })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="lab-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(INTEGRATOR_LABELS) as IntegratorMethod[]).map((method) => (
+                <SelectItem key={method} value={method}>{INTEGRATOR_LABELS[method]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Label className="text-xs text-muted-foreground cursor-help">Step size (Δt)</Label>
+            </TooltipTrigger>
+            <TooltipContent className="tooltip-content">
+              <p>Time between calculation steps. Smaller steps are more accurate but need more calculations.</p>
+            </TooltipContent>
+          </Tooltip>
+          <Select
+            value={String(integrator.timeStep)}
+            onValueChange={(value) => onIntegratorChange({ ...integrator, timeStep: parseFloat(value) })}
+            disabled={disabled || !isNumerical}
+          >
+            <SelectTrigger className="lab-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTEGRATOR_TIME_STEPS.map((step) => (
+                <SelectItem key={step} value={String(step)}>{step} s</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isNumerical && (
+        <div className="p-3 bg-secondary/50 rounded-lg text-sm">
+          <span className="text-muted-foreground">Current error from exact path: </span>
+          <span className="mono text-primary">{positionError.toExponential(2)} m</span>
+        </div>
+      )}
+
+      {/* Error table: largest distance from the reference path */}
+      <div className="overflow-hidden rounded-lg border border-border">
+        <table className="w-full text-xs">
+          <thead className="bg-secondary/70">
+            <tr>
+              <th className="text-left py-2 px-2 font-medium text-foreground">Max error (m)</th>
+              {INTEGRATOR_TIME_STEPS.map((step) => (
+                <th key={step} className="text-right py-2 px-2 font-medium text-foreground mono">
+                  Δt={step}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {NUMERICAL_METHODS.map((method, index) => (
+              <tr
+                key={method}
+                className={method === integrator.method
+                  ? 'bg-primary/10'
+                  : index % 2 === 0 ? 'bg-card' : 'bg-secondary/30'}
+              >
+                <td className="py-2 px-2 text-foreground font-medium">{INTEGRATOR_LABELS[method]}</td>
+                {INTEGRATOR_TIME_STEPS.map((step) => {
+                  const entry = errorTable.find((e) => e.method === method && e.timeStep === step);
+                  return (
+                    <td key={step} className="py-2 px-2 text-right mono text-muted-foreground">
+                      {entry ? entry.maxPositionError.toExponential(1) : '—'}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        💡 Halving Δt roughly halves Euler's error. Verlet and RK4 are exact for constant gravity, so switch on air resistance to see their errors shrink too.
+      </p>
+    </div>
+  );
+};
+
+export default NumericalMethodsPanel;
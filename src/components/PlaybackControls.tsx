@@ -0,0 +1,101 @@
+/**
+ * PlaybackControls.tsx - Playback speed and timeline for the simulation
+ *
+ * Slow motion lets students watch the apex closely; fast forward
+ * gets through long flights quickly. The time readout always shows
+ * simulated time, whatever the speed.
+ *
+ * Once a run has started, the timeline can be dragged to any moment
+ * of the flight or stepped one frame at a time.
+ */
+
+import React from 'react';
+import { Gauge, StepBack, StepForward } from 'lucide-react';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { PLAYBACK_RATES, TIME_STEP } from '../physics/constants';
+
+interface PlaybackControlsProps {
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  time: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  onStepForward: () => void;
+  onStepBackward: () => void;
+  canSeek?: boolean;
+}
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  playbackRate,
+  onPlaybackRateChange,
+  time,
+  duration,
+  onSeek,
+  onStepForward,
+  onStepBackward,
+  canSeek = false,
+}) => {
+  return (
+    <div className="space-y-3">
+      {/* Timeline */}
+      <div className="flex items-center gap-2">
+        <Button
+          size="icon"
+          variant="outline"
+          className="h-8 w-8"
+          onClick={onStepBackward}
+          disabled={!canSeek || time <= 0}
+          aria-label="Step back one frame"
+        >
+          <StepBack className="w-4 h-4" />
+        </Button>
+        <Slider
+          value={[Math.min(time, duration)]}
+          onValueChange={([value]) => onSeek(value)}
+          min={0}
+          max={duration}
+          step={TIME_STEP}
+          disabled={!canSeek}
+          className="flex-1"
+        />
+        <Button
+          size="icon"
+          variant="outline"
+          className="h-8 w-8"
+          onClick={onStepForward}
+          disabled={!canSeek || time >= duration}
+          aria-label="Step forward one frame"
+        >
+          <StepForward className="w-4 h-4" />
+        </Button>
+        <span className="mono text-xs text-muted-foreground w-28 text-right">
+          {time.toFixed(2)} / {duration.toFixed(2)} s
+        </span>
+      </div>
+
+      {/* Speed */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-muted-foreground flex items-center gap-1">
+          <Gauge className="w-4 h-4" />
+          Speed
+        </span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={String(playbackRate)}
+          onValueChange={(value) => value && onPlaybackRateChange(parseFloat(value))}
+        >
+          {PLAYBACK_RATES.map((rate) => (
+            <ToggleGroupItem key={rate} value={String(rate)} className="mono text-xs px-2">
+              {rate}×
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackControls;
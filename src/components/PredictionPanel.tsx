@@ -15,14 +15,21 @@ import { HelpCircle } from 'lucide-react';
 interface PredictionPanelProps {
   predictions: Predictions;
   onPredictionsChange: (predictions: Predictions) => void;
+  launchHeight?: number;
+  landingHeight?: number;
   disabled?: boolean;
 }
 
 export const PredictionPanel: React.FC<PredictionPanelProps> = ({
   predictions,
   onPredictionsChange,
+  launchHeight = 0,
+  landingHeight = 0,
   disabled = false,
 }) => {
+  // Show the simpler level-ground formulas unless a height has been set
+  const isLevelGround = launchHeight === 0 && landingHeight === 0;
+
   const handleChange = (field: keyof Predictions, value: string) => {
     const numValue = parseFloat(value) || 0;
     onPredictionsChange({
@@ -54,7 +61,11 @@ export const PredictionPanel: React.FC<PredictionPanelProps> = ({
             </TooltipTrigger>
             <TooltipContent className="tooltip-content">
               <p className="mb-2">Total time from launch to landing.</p>
-              <p className="equation text-xs">T = 2v₀sin(θ) / g</p>
+              <p className="equation text-xs">
+                {isLevelGround
+                  ? 'T = 2v₀sin(θ) / g'
+                  : 'T = [v₀sin(θ) + √((v₀sin(θ))² + 2g(h₀ − h₁))] / g'}
+              </p>
             </TooltipContent>
           </Tooltip>
         </div>
@@ -85,7 +96,9 @@ export const PredictionPanel: React.FC<PredictionPanelProps> = ({
             </TooltipTrigger>
             <TooltipContent className="tooltip-content">
               <p className="mb-2">Highest point reached by the projectile.</p>
-              <p className="equation text-xs">H = (v₀sin(θ))² / 2g</p>
+              <p className="equation text-xs">
+                {isLevelGround ? 'H = (v₀sin(θ))² / 2g' : 'H = h₀ + (v₀sin(θ))² / 2g'}
+              </p>
             </TooltipContent>
           </Tooltip>
         </div>
@@ -116,7 +129,9 @@ export const PredictionPanel: React.FC<PredictionPanelProps> = ({
             </TooltipTrigger>
             <TooltipContent className="tooltip-content">
               <p className="mb-2">Total horizontal distance traveled.</p>
-              <p className="equation text-xs">R = v₀²sin(2θ) / g</p>
+              <p className="equation text-xs">
+                {isLevelGround ? 'R = v₀²sin(2θ) / g' : 'R = v₀cos(θ) × T'}
+              </p>
             </TooltipContent>
           </Tooltip>
         </div>
@@ -0,0 +1,125 @@
+/**
+ * ReportPanel.tsx - Write up the experiment
+ *
+ * Collects the aim, launch values, predictions, results table and
+ * pictures of the simulation and graphs into a lab report. Students add
+ * their conclusion here, then download the report as Markdown or open a
+ * print view to save it as a PDF.
+ */
+
+import React from 'react';
+import { FileDown, FileText, Printer } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { toast } from '../hooks/use-toast';
+import { downloadFile, getFileName, printHtml } from '../lib/download';
+import { compareWithPredictions } from '../physics/comparison';
+import { REPORT_TITLE } from '../physics/constants';
+import { reportToHtml, reportToMarkdown } from '../physics/labReport';
+import {
+  CalculatedResults,
+  IntegratorSettings,
+  LabReportContent,
+  LaunchParameters,
+  Predictions,
+  ReportSnapshot,
+} from '../physics/types';
+
+interface ReportPanelProps {
+  params: LaunchParameters;
+  integrator: IntegratorSettings;
+  predictions: Predictions;
+  results: CalculatedResults;
+  simulationComplete: boolean;
+  conclusion: string;
+  onConclusionChange: (conclusion: string) => void;
+  getSnapshots: () => ReportSnapshot[]; // Pictures of the canvas and graphs as they are now
+}
+
+export const ReportPanel: React.FC<ReportPanelProps> = ({
+  params,
+  integrator,
+  predictions,
+  results,
+  simulationComplete,
+  conclusion,
+  onConclusionChange,
+  getSnapshots,
+}) => {
+  // Assembled when asked for, so the pictures match the screen at that moment
+  const buildReport = (): LabReportContent => ({
+    params,
+    integrator,
+    predictions,
+    comparisons: simulationComplete ? compareWithPredictions(predictions, results) : null,
+    snapshots: getSnapshots(),
+    conclusion,
+    createdAt: new Date().toISOString(),
+  });
+
+  const handleMarkdown = () => {
+    downloadFile(getFileName(REPORT_TITLE, 'md'), reportToMarkdown(buildReport()), 'text/markdown');
+  };
+
+  const handlePrint = async () => {
+    try {
+      await printHtml(reportToHtml(buildReport()));
+    } catch (error) {
+      toast({
+        title: 'Could not open the print view',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="lab-section space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <FileText className="w-5 h-5 text-primary" />
+          Lab Report
+        </h3>
+        <span className="phase-badge phase-observe">Observe</span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Generate a write-up with the aim, your launch values and predictions, the results table and
+        pictures of the simulation and graphs as they are on screen now.
+      </p>
+
+      {/* Student's conclusion */}
+      <div className="space-y-1">
+        <Label htmlFor="report-conclusion" className="text-xs text-muted-foreground">Conclusion</Label>
+        <Textarea
+          id="report-conclusion"
+          value={conclusion}
+          onChange={(e) => onConclusionChange(e.target.value)}
+          placeholder="Did the results agree with your predictions? What explains any difference?"
+          className="lab-input min-h-[100px] text-sm"
+        />
+      </div>
+
+      {!simulationComplete && (
+        <p className="text-xs text-muted-foreground">
+          Run the simulation first to include the results table.
+        </p>
+      )}
+
+      {/* Generate the report */}
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleMarkdown}>
+          <FileDown className="w-4 h-4 mr-2" />
+          Download Markdown
+        </Button>
+        <Button onClick={handlePrint}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print or save as PDF
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportPanel;
@@ -6,54 +6,31 @@
  */
 
 import React from 'react';
-import { CalculatedResults, Predictions, ComparisonResult } from '../physics/types';
+import { CalculatedResults, IntegratorSettings, LaunchParameters, Predictions } from '../physics/types';
 import { CheckCircle2, XCircle, Minus } from 'lucide-react';
 import { DECIMAL_PLACES } from '../physics/constants';
+import { compareWithPredictions, getAccuracyLabel, hasPrediction } from '../physics/comparison';
+import { WorkedSolution } from './WorkedSolution';
 
 interface ResultsPanelProps {
   results: CalculatedResults;
   predictions: Predictions;
   simulationComplete: boolean;
+  idealResults?: CalculatedResults; // Only given when air resistance is on
+  params: LaunchParameters;           // For the worked solution
+  integrator: IntegratorSettings;
 }
 
 export const ResultsPanel: React.FC<ResultsPanelProps> = ({
   results,
   predictions,
   simulationComplete,
+  idealResults,
+  params,
+  integrator,
 }) => {
   // Build comparison data
-  const comparisons: ComparisonResult[] = [
-    {
-      label: 'Time of Flight',
-      predicted: predictions.timeOfFlight,
-      actual: results.timeOfFlight,
-      difference: Math.abs(predictions.timeOfFlight - results.timeOfFlight),
-      percentError: results.timeOfFlight > 0
-        ? (Math.abs(predictions.timeOfFlight - results.timeOfFlight) / results.timeOfFlight) * 100
-        : 0,
-      unit: 's',
-    },
-    {
-      label: 'Maximum Height',
-      predicted: predictions.maxHeight,
-      actual: results.maxHeight,
-      difference: Math.abs(predictions.maxHeight - results.maxHeight),
-      percentError: results.maxHeight > 0
-        ? (Math.abs(predictions.maxHeight - results.maxHeight) / results.maxHeight) * 100
-        : 0,
-      unit: 'm',
-    },
-    {
-      label: 'Horizontal Range',
-      predicted: predictions.horizontalRange,
-      actual: results.horizontalRange,
-      difference: Math.abs(predictions.horizontalRange - results.horizontalRange),
-      percentError: results.horizontalRange > 0
-        ? (Math.abs(predictions.horizontalRange - results.horizontalRange) / results.horizontalRange) * 100
-        : 0,
-      unit: 'm',
-    },
-  ];
+  const comparisons = compareWithPredictions(predictions, results);
 
   const getAccuracyIcon = (percentError: number) => {
     if (percentError <= 5) return <CheckCircle2 className="w-5 h-5 text-accent" />;
@@ -61,13 +38,6 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
     return <XCircle className="w-5 h-5 text-destructive" />;
   };
 
-  const getAccuracyLabel = (percentError: number) => {
-    if (percentError <= 5) return 'Excellent!';
-    if (percentError <= 10) return 'Good';
-    if (percentError <= 20) return 'Close';
-    return 'Try again';
-  };
-
   return (
     <div className="lab-section space-y-5">
       <div className="flex items-center justify-between">
@@ -116,7 +86,7 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                   >
                     <td className="py-2.5 px-3 text-foreground font-medium">{comparison.label}</td>
                     <td className="py-2.5 px-3 text-right mono text-prediction">
-                      {comparison.predicted > 0 
+                      {hasPrediction(comparison) 
                         ? `${comparison.predicted.toFixed(DECIMAL_PLACES)} ${comparison.unit}`
                         : '—'
                       }
@@ -125,13 +95,13 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                       {comparison.actual.toFixed(DECIMAL_PLACES)} {comparison.unit}
                     </td>
                     <td className="py-2.5 px-3 text-right mono text-muted-foreground">
-                      {comparison.predicted > 0 
+                      {hasPrediction(comparison) 
                         ? `${comparison.percentError.toFixed(1)}%`
                         : '—'
                       }
                     </td>
                     <td className="py-2.5 px-3 text-center">
-                      {comparison.predicted > 0 ? (
+                      {hasPrediction(comparison) ? (
                         <div className="flex items-center justify-center gap-1">
                           {getAccuracyIcon(comparison.percentError)}
                           <span className="text-xs text-muted-foreground hidden sm:inline">
@@ -148,6 +118,32 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
             </table>
           </div>
 
+          {/* Step-by-step derivation of the results */}
+          <WorkedSolution params={params} integrator={integrator} />
+
+          {/* Air resistance effect: with drag vs ideal */}
+          {idealResults && (
+            <div className="p-3 bg-secondary/50 rounded-lg space-y-2">
+              <h4 className="text-sm font-medium text-foreground">Effect of Air Resistance</h4>
+              <div className="grid grid-cols-3 gap-3 text-sm">
+                {[
+                  { label: 'Range', ideal: idealResults.horizontalRange, actual: results.horizontalRange, unit: 'm' },
+                  { label: 'Max height', ideal: idealResults.maxHeight, actual: results.maxHeight, unit: 'm' },
+                  { label: 'Flight time', ideal: idealResults.timeOfFlight, actual: results.timeOfFlight, unit: 's' },
+                ].map(({ label, ideal, actual, unit }) => (
+                  <div key={label}>
+                    <p className="text-muted-foreground">{label}</p>
+                    <p className="mono text-primary">{actual.toFixed(DECIMAL_PLACES)} {unit}</p>
+                    <p className="mono text-xs text-muted-foreground">
+                      ideal {ideal.toFixed(DECIMAL_PLACES)} {unit}
+                      {ideal > 0 && ` (${(((actual - ideal) / ideal) * 100).toFixed(1)}%)`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Additional calculated values */}
           <div className="p-3 bg-secondary/50 rounded-lg space-y-2">
             <h4 className="text-sm font-medium text-foreground">Additional Information</h4>
@@ -155,6 +151,10 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
               <span className="text-muted-foreground">Time to reach max height: </span>
               <span className="mono text-primary">{results.timeToMaxHeight.toFixed(DECIMAL_PLACES)} s</span>
             </div>
+            <div className="text-sm">
+              <span className="text-muted-foreground">Vertical velocity at landing: </span>
+              <span className="mono text-primary">{results.finalVelocityY.toFixed(DECIMAL_PLACES)} m/s</span>
+            </div>
           </div>
         </div>
       )}
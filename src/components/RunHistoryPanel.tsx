@@ -0,0 +1,111 @@
+/**
+ * RunHistoryPanel.tsx - List of previous runs shown as ghost paths
+ *
+ * Every finished launch is kept here so students can compare, say, a
+ * 30° launch with a 60° launch. Runs can be pinned (kept when clearing),
+ * hidden, recoloured or removed one at a time.
+ */
+
+import React from 'react';
+import { History, Pin, Eye, EyeOff, X, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { DECIMAL_PLACES } from '../physics/constants';
+import { SavedRun } from '../physics/types';
+
+interface RunHistoryPanelProps {
+  runs: SavedRun[];
+  onTogglePinned: (id: number) => void;
+  onToggleVisible: (id: number) => void;
+  onColorChange: (id: number, color: string) => void;
+  onRemove: (id: number) => void;
+  onClear: () => void;
+}
+
+export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({
+  runs,
+  onTogglePinned,
+  onToggleVisible,
+  onColorChange,
+  onRemove,
+  onClear,
+}) => {
+  return (
+    <div className="lab-section space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          Previous Runs
+        </h3>
+        <span className="phase-badge phase-observe">Observe</span>
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Finished launches appear here and stay on the canvas as faded paths, so you can compare them.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {runs.map((run) => (
+              <div
+                key={run.id}
+                className={`flex items-center gap-3 p-2 rounded-lg bg-secondary/50 ${run.visible ? '' : 'opacity-50'}`}
+              >
+                {/* Colour swatch doubles as the colour picker */}
+                <input
+                  type="color"
+                  value={run.color}
+                  onChange={(e) => onColorChange(run.id, e.target.value)}
+                  className="w-6 h-6 rounded cursor-pointer border-0 bg-transparent p-0"
+                  aria-label={`Colour for run ${run.id}`}
+                />
+                <div className="flex-1 min-w-0 text-sm">
+                  <p className="font-medium text-foreground truncate">{run.label}</p>
+                  <p className="mono text-xs text-muted-foreground">
+                    R = {run.results.horizontalRange.toFixed(DECIMAL_PLACES)} m,
+                    H = {run.results.maxHeight.toFixed(DECIMAL_PLACES)} m,
+                    T = {run.results.timeOfFlight.toFixed(DECIMAL_PLACES)} s
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => onTogglePinned(run.id)}
+                  aria-label={run.pinned ? 'Unpin run' : 'Pin run'}
+                >
+                  <Pin className={`w-4 h-4 ${run.pinned ? 'text-primary fill-current' : 'text-muted-foreground'}`} />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => onToggleVisible(run.id)}
+                  aria-label={run.visible ? 'Hide run' : 'Show run'}
+                >
+                  {run.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => onRemove(run.id)}
+                  aria-label="Remove run"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <Button onClick={onClear} variant="outline" className="w-full">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear unpinned runs
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RunHistoryPanel;
@@ -0,0 +1,267 @@
+/**
+ * SessionsPanel.tsx - Save, resume and hand in lab work
+ *
+ * A session keeps the launch set-up, predictions, finished runs and
+ * notes in this browser. Sessions can be renamed, duplicated or deleted,
+ * and exported as a JSON file to hand in or open on another computer.
+ */
+
+import React, { useRef, useState } from 'react';
+import { Check, Copy, Download, FolderOpen, Pencil, Save, Trash2, Upload, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { toast } from '../hooks/use-toast';
+import { downloadFile, getFileName } from '../lib/download';
+import { sessionToFile } from '../lib/sessions';
+import { LabSession } from '../physics/types';
+
+interface SessionsPanelProps {
+  sessions: LabSession[];
+  activeSession: LabSession | null;
+  notes: string;
+  onNotesChange: (notes: string) => void;
+  onSave: () => void;                 // Into the open session, or a new one
+  onSaveAs: (name: string) => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (text: string) => LabSession;
+}
+
+/**
+ * Show a failed action's message to the student
+ */
+function reportError(error: unknown) {
+  toast({
+    title: 'Something went wrong',
+    description: error instanceof Error ? error.message : undefined,
+    variant: 'destructive',
+  });
+}
+
+/**
+ * Run a session action, reporting storage problems instead of failing silently
+ */
+function attempt(action: () => void, success?: string) {
+  try {
+    action();
+    if (success) toast({ title: success });
+  } catch (error) {
+    reportError(error);
+  }
+}
+
+export const SessionsPanel: React.FC<SessionsPanelProps> = ({
+  sessions,
+  activeSession,
+  notes,
+  onNotesChange,
+  onSave,
+  onSaveAs,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onImport,
+}) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [deleting, setDeleting] = useState<LabSession | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSaveAs = () => {
+    const name = newName.trim();
+    if (!name) return;
+    attempt(() => onSaveAs(name), `Saved "${name}"`);
+    setNewName('');
+  };
+
+  const startRename = (session: LabSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const finishRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) attempt(() => onRename(editingId, name));
+    setEditingId(null);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow the same file to be picked again
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const session = onImport(text);
+      toast({ title: `Imported "${session.name}"`, description: 'Open it from the list to carry on.' });
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <div className="lab-section space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <FolderOpen className="w-5 h-5 text-primary" />
+          Sessions
+        </h3>
+        {activeSession && (
+          <span className="text-xs text-muted-foreground truncate max-w-[50%]">Open: {activeSession.name}</span>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Save your set-up, predictions, runs and notes in this browser to carry on later, or export them as a file to hand in.
+      </p>
+
+      {/* Notes saved with the session */}
+      <div className="space-y-1">
+        <Label htmlFor="session-notes" className="text-xs text-muted-foreground">Notes</Label>
+        <Textarea
+          id="session-notes"
+          value={notes}
+          onChange={(e) => onNotesChange(e.target.value)}
+          placeholder="Observations, answers to questions, things to try next…"
+          className="lab-input min-h-[80px] text-sm"
+        />
+      </div>
+
+      {/* Saving */}
+      <Button onClick={() => attempt(onSave, activeSession ? `Saved "${activeSession.name}"` : 'Saved as a new session')} className="w-full">
+        <Save className="w-4 h-4 mr-2" />
+        {activeSession ? `Save "${activeSession.name}"` : 'Save session'}
+      </Button>
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSaveAs()}
+          placeholder="New session name"
+          className="lab-input h-9"
+          aria-label="New session name"
+        />
+        <Button variant="outline" onClick={handleSaveAs} disabled={!newName.trim()}>
+          Save as new
+        </Button>
+      </div>
+
+      {/* Saved sessions */}
+      {sessions.length > 0 && (
+        <div className="space-y-2">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className={`flex items-center gap-2 p-2 rounded-lg bg-secondary/50 ${session.id === activeSession?.id ? 'ring-1 ring-primary' : ''}`}
+            >
+              <div className="flex-1 min-w-0 text-sm">
+                {editingId === session.id ? (
+                  <div className="flex items-center gap-1">
+                    <Input
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      autoFocus
+                      className="lab-input h-7 text-sm"
+                      aria-label="Session name"
+                    />
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={finishRename} aria-label="Save name">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingId(null)} aria-label="Cancel renaming">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    <p className="font-medium text-foreground truncate">{session.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(session.updatedAt)} · {session.runs.length} {session.runs.length === 1 ? 'run' : 'runs'}
+                    </p>
+                  </>
+                )}
+              </div>
+              {editingId !== session.id && (
+                <>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => onOpen(session.id)} aria-label="Open session" title="Open">
+                    <FolderOpen className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => startRename(session)} aria-label="Rename session" title="Rename">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => attempt(() => onDuplicate(session.id))} aria-label="Duplicate session" title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => downloadFile(getFileName(session.name, 'json'), sessionToFile(session), 'application/json')}
+                    aria-label="Export session"
+                    title="Export as a file"
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setDeleting(session)} aria-label="Delete session" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Importing a session file */}
+      <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+        <Upload className="w-4 h-4 mr-2" />
+        Import a session file
+      </Button>
+      <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its runs and notes are removed from this browser. Export it first if you might need it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleting) attempt(() => onDelete(deleting.id));
+                setDeleting(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SessionsPanel;
@@ -0,0 +1,82 @@
+/**
+ * ShareLinkButton.tsx - Copy a link that opens the lab with this experiment
+ *
+ * The link carries the launch values and the features switched on, so a
+ * teacher can send a ready-made set-up. Predictions are left out unless
+ * the student chooses to include them.
+ */
+
+import React from 'react';
+import { Copy, Share2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Switch } from './ui/switch';
+import { toast } from '../hooks/use-toast';
+
+interface ShareLinkButtonProps {
+  shareLink: string;
+  includePredictions: boolean;
+  onIncludePredictionsChange: (include: boolean) => void;
+}
+
+export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
+  shareLink,
+  includePredictions,
+  onIncludePredictionsChange,
+}) => {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      toast({ title: 'Link copied', description: 'Anyone opening it gets this experiment set up.' });
+    } catch {
+      toast({ title: 'Could not copy the link', description: 'Select it and copy it by hand.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="ml-auto">
+          <Share2 className="w-4 h-4 mr-2" />
+          Share
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <h4 className="text-sm font-semibold text-foreground">Share this experiment</h4>
+          <p className="text-xs text-muted-foreground">
+            The link opens the lab with the same launch values, air resistance, extra projectiles and view options.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={shareLink}
+            onFocus={(e) => e.target.select()}
+            className="lab-input h-8 text-xs"
+            aria-label="Experiment link"
+          />
+          <Button size="sm" onClick={handleCopy} className="h-8">
+            <Copy className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="share-predictions" className="text-xs text-muted-foreground">
+            Include my predictions (encoded, so they can't be read from the link)
+          </Label>
+          <Switch
+            id="share-predictions"
+            checked={includePredictions}
+            onCheckedChange={onIncludePredictionsChange}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ShareLinkButton;
@@ -1,17 +1,83 @@
 /**
  * SimulationCanvas.tsx - Cute pastel 2D visualization of projectile motion
+ *
+ * The view fits the whole scene by default. Scroll or pinch to zoom, drag
+ * to pan, lock x and y to the same scale to see true angles, or let the
+ * camera follow the projectile.
+ *
+ * Before launch, the arrow at the launcher can be dragged to aim: its
+ * direction sets the launch angle and its length the launch speed, with
+ * a dotted preview of the path.
+ *
+ * A time hovered on the motion graphs is marked on the path, so a point
+ * on a graph can be matched to where the projectile was.
+ *
+ * The canvas fills its container's width at the preferred aspect ratio and
+ * draws at the screen's pixel ratio, so lines and text stay sharp.
+ *
+ * The save menu redraws the scene as a high-resolution PNG or a vector
+ * SVG. Once the flight is over it can also replay it frame by frame into
+ * an animated GIF or a WebM video.
  */
 
-import React, { useRef, useEffect, useCallback } from 'react';
-import { Vector2D, CalculatedResults, TrajectoryData } from '../physics/types';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
+import { LocateFixed, Maximize, Ratio, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from './ui/button';
+import { ImageExportMenu } from './ImageExportMenu';
+import { useCanvasSize } from '../hooks/useCanvasSize';
+import { downloadFile, getFileName } from '../lib/download';
+import { DrawingContext } from '../lib/drawingContext';
+import { GifEncoder } from '../lib/gifEncoder';
+import { renderToPng, renderToSvg } from '../lib/imageExport';
+import {
+  ANIMATION_EXPORT_FPS,
+  DEFAULT_STROBE_OPTIONS,
+  DEFAULT_VECTOR_OPTIONS,
+  DEG_TO_RAD,
+  IMAGE_EXPORT_SCALE,
+  LIMITS,
+  RAD_TO_DEG,
+  STANDARD_GRAVITY,
+  VECTOR_PATH_INTERVAL,
+} from '../physics/constants';
+import { calculatePositionAtTime, calculateTimeOfFlight } from '../physics/equations';
+import { interpolateTrajectory, truncateTrajectory } from '../physics/integrators';
+import {
+  Vector2D,
+  CalculatedResults,
+  TrajectoryData,
+  HighlightPoint,
+  Wall,
+  SavedRun,
+  CompanionProjectile,
+  StrobeOptions,
+  VectorOptions,
+  ImageExportFormat,
+} from '../physics/types';
 
 interface SimulationCanvasProps {
-  width: number;
+  width: number;  // Preferred size; the canvas fills its container at this aspect ratio
   height: number;
   currentPosition: Vector2D;
+  currentVelocity?: Vector2D;
   trajectory: TrajectoryData;
   results: CalculatedResults;
   isActive: boolean;
+  launchHeight?: number;
+  landingHeight?: number;
+  referencePath?: Vector2D[]; // Ideal (no air resistance) path for comparison
+  target?: Vector2D | null;   // Target to aim at, if one has been placed
+  highlights?: HighlightPoint[]; // Extra marked points (challenge targets, impacts)
+  wall?: Wall | null;         // Obstacle standing on the ground
+  ghostRuns?: SavedRun[];     // Previous runs drawn as faded paths
+  companions?: CompanionProjectile[]; // Other projectiles in flight alongside this one
+  gravity?: number;           // For the acceleration arrow (m/s²)
+  vectors?: VectorOptions;    // Which vector arrows to draw
+  strobe?: StrobeOptions;     // Multi-flash view instead of a path line
+  launchVelocity?: number;    // Current aim, drawn as a draggable arrow (m/s)
+  launchAngle?: number;       // (degrees)
+  onAim?: (launchAngle: number, initialVelocity: number) => void; // Drag-to-aim; omit to disable
+  hoverTime?: number | null;  // Time hovered on the graphs, marked on each path (s)
   showEquations?: boolean;
 }
 
@@ -36,48 +102,263 @@ const COLORS = {
   ground: '#b8e6c8',       // mint green ground
   groundDark: '#9dd4b0',
   grass: '#7cc9a0',
+  cliff: '#c9b8a0',        // sandy rock
+  cliffDark: '#a8957c',
+  reference: '#9aa8c0',    // soft slate for the ideal path
+  target: '#e06b8b',       // raspberry
+  wall: '#b59a8a',         // brick
+  velocity: '#6a7fdb',     // periwinkle
+  component: '#9aa9ea',
+  acceleration: '#d46a6a', // brick red
+  aim: '#e8735f',          // matches the projectile
+  hover: '#8a7fa0',        // matches the graph crosshair
   cloud: 'rgba(255,255,255,0.7)',
 };
 
+// Width of the launch cliff drawn to the left of the launch point (pixels)
+const CLIFF_WIDTH = 28;
+
+// Thickness of a wall obstacle (pixels)
+const WALL_WIDTH = 10;
+
+// Length of the launch velocity arrow (pixels); every arrow shares this scale
+const VECTOR_ARROW_LENGTH = 70;
+
+// Length of the aiming arrow: a fixed part, so the tip can be grabbed
+// even at the lowest speed, plus a part per m/s of launch speed; and how
+// close a press must land to grab it (pixels)
+const AIM_MIN_LENGTH = 40;
+const AIM_PIXELS_PER_MPS = 2;
+const AIM_HANDLE_RADIUS = 18;
+
+// Zoom limits relative to the "fit all" view, and the step for the buttons
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 50;
+const ZOOM_STEP = 1.25;
+const WHEEL_ZOOM_SPEED = 0.0015; // per pixel of wheel scroll
+
+// Shortest the canvas gets on narrow screens (pixels)
+const MIN_CANVAS_HEIGHT = 240;
+
+// Scene content may spill this far below the plot so a landed ball isn't cut off (pixels)
+const SCENE_OVERHANG = 16;
+
+// How long an exported GIF holds the landing before looping (milliseconds)
+const ANIMATION_END_PAUSE = 1500;
+
+// Base name of saved images and animations
+const EXPORT_NAME = 'projectile-motion';
+
+interface Camera {
+  zoom: number;               // 1 = fit the whole scene
+  origin: Vector2D;           // World point at the bottom-left of the plot (meters)
+}
+
+const FIT_CAMERA: Camera = { zoom: 1, origin: { x: 0, y: 0 } };
+
+const NO_HIGHLIGHTS: HighlightPoint[] = [];
+
+const NO_RUNS: SavedRun[] = [];
+
+const NO_COMPANIONS: CompanionProjectile[] = [];
+
 export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
-  width,
-  height,
-  currentPosition,
-  trajectory,
+  width: preferredWidth,
+  height: preferredHeight,
+  currentPosition: liveCurrentPosition,
+  currentVelocity: liveCurrentVelocity,
+  trajectory: liveTrajectory,
   results,
-  isActive,
+  isActive: liveIsActive,
+  launchHeight = 0,
+  landingHeight = 0,
+  referencePath,
+  target = null,
+  highlights = NO_HIGHLIGHTS,
+  wall = null,
+  ghostRuns = NO_RUNS,
+  companions: liveCompanions = NO_COMPANIONS,
+  gravity = STANDARD_GRAVITY,
+  vectors = DEFAULT_VECTOR_OPTIONS,
+  strobe = DEFAULT_STROBE_OPTIONS,
+  launchVelocity = 0,
+  launchAngle = 0,
+  onAim,
+  hoverTime: liveHoverTime = null,
   showEquations = false,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { containerRef, width, height, pixelRatio } = useCanvasSize(
+    preferredWidth,
+    preferredHeight,
+    MIN_CANVAS_HEIGHT
+  );
+
+  // Camera: zoom and pan, equal x/y scales, follow the projectile
+  const [camera, setCamera] = useState<Camera>(FIT_CAMERA);
+  const [equalScales, setEqualScales] = useState(false);
+  const [follow, setFollow] = useState(false);
+
+  // Pointers currently pressed on the canvas (two for a pinch)
+  const pointersRef = useRef(new Map<number, Vector2D>());
+
+  // Moment of the flight being drawn for an exported animation (null shows the live view),
+  // and a callback waiting for that frame to reach the canvas
+  const [frameTime, setFrameTime] = useState<number | null>(null);
+  const frameDrawnRef = useRef<{ time: number; resolve: () => void } | null>(null);
+  const [recordingProgress, setRecordingProgress] = useState<number | null>(null);
+
+  // When every projectile has landed (s)
+  const flightEnd = Math.max(
+    results.timeOfFlight,
+    ...liveCompanions.map((companion) => (companion.startDelay ?? 0) + companion.results.timeOfFlight)
+  );
+
+  // The whole flight has been recorded, so it can be replayed into an animation
+  const isFlightComplete = !liveIsActive && liveTrajectory.times.length > 0 && [
+    { path: liveTrajectory, end: results.timeOfFlight },
+    ...liveCompanions.map((companion) => ({
+      path: companion.trajectory,
+      end: (companion.startDelay ?? 0) + companion.results.timeOfFlight,
+    })),
+  ].every(({ path, end }) => path.times.length > 0 && path.times[path.times.length - 1] >= end - 1e-6);
+
+  // The flight as it was at `frameTime`, rebuilt from the recording
+  const frame = useMemo(() => {
+    if (frameTime === null || liveTrajectory.times.length === 0) return null;
+    const main = interpolateTrajectory(liveTrajectory, frameTime);
+    return {
+      trajectory: truncateTrajectory(liveTrajectory, frameTime),
+      position: main.position,
+      velocity: main.velocity,
+      companions: liveCompanions.map((companion): CompanionProjectile => {
+        const path = companion.trajectory;
+        if (path.times.length === 0) return companion;
+        const landed = path.times[path.times.length - 1];
+        return {
+          ...companion,
+          state: {
+            ...interpolateTrajectory(path, frameTime),
+            time: frameTime,
+            isActive: frameTime >= path.times[0] && frameTime < landed,
+          },
+          trajectory: truncateTrajectory(path, frameTime),
+        };
+      }),
+    };
+  }, [frameTime, liveTrajectory, liveCompanions]);
+
+  const trajectory = frame ? frame.trajectory : liveTrajectory;
+  const currentPosition = frame ? frame.position : liveCurrentPosition;
+  const currentVelocity = frame ? frame.velocity : liveCurrentVelocity;
+  const companions = frame ? frame.companions : liveCompanions;
+  const isActive = frame ? true : liveIsActive;
+  const hoverTime = frame ? null : liveHoverTime;
+
+  // Pointer dragging the aiming arrow, if any
+  const aimPointerRef = useRef<number | null>(null);
+  const [isAiming, setIsAiming] = useState(false);
+  const canAim = Boolean(onAim) && !isActive;
 
   const groundY = height - PADDING.bottom;
 
+  // Extent of everything worth seeing: paths, targets and obstacles
+  const calculateSceneSize = useCallback(() => {
+    let rangeX = results.horizontalRange;
+    let rangeY = results.maxHeight;
+    referencePath?.forEach((point) => {
+      rangeX = Math.max(rangeX, point.x);
+      rangeY = Math.max(rangeY, point.y);
+    });
+    [target, ...highlights.map((point) => point.position)].forEach((point) => {
+      if (!point) return;
+      rangeX = Math.max(rangeX, point.x);
+      rangeY = Math.max(rangeY, point.y);
+    });
+    if (wall) {
+      rangeX = Math.max(rangeX, wall.x);
+      rangeY = Math.max(rangeY, wall.height);
+    }
+    [...ghostRuns, ...companions].forEach(({ results: other }) => {
+      rangeX = Math.max(rangeX, other.horizontalRange);
+      rangeY = Math.max(rangeY, other.maxHeight);
+    });
+    return { x: Math.max(rangeX * 1.1, 10), y: Math.max(rangeY * 1.3, 10) };
+  }, [results, referencePath, target, highlights, wall, ghostRuns, companions]);
+
+  // Pixels per meter and the visible world window
   const calculateScale = useCallback(() => {
     const drawWidth = width - PADDING.left - PADDING.right;
     const drawHeight = height - PADDING.top - PADDING.bottom;
-    const maxX = Math.max(results.horizontalRange * 1.1, 10);
-    const maxY = Math.max(results.maxHeight * 1.3, 10);
-    return { x: drawWidth / maxX, y: drawHeight / maxY, maxX, maxY };
-  }, [width, height, results]);
+    const scene = calculateSceneSize();
+
+    let scaleX = (drawWidth / scene.x) * camera.zoom;
+    let scaleY = (drawHeight / scene.y) * camera.zoom;
+    if (equalScales) {
+      scaleX = scaleY = Math.min(scaleX, scaleY);
+    }
+
+    const viewWidth = drawWidth / scaleX;
+    const viewHeight = drawHeight / scaleY;
+    const isFollowing = follow && trajectory.positions.length > 0;
+    const minX = isFollowing ? currentPosition.x - viewWidth / 2 : camera.origin.x;
+    const minY = isFollowing ? currentPosition.y - viewHeight / 2 : camera.origin.y;
+
+    return {
+      x: scaleX,
+      y: scaleY,
+      minX,
+      minY,
+      maxX: minX + viewWidth,
+      maxY: minY + viewHeight,
+    };
+  }, [width, height, calculateSceneSize, camera, equalScales, follow, trajectory, currentPosition]);
 
   const toCanvasCoords = useCallback(
     (point: Vector2D): Vector2D => {
       const scale = calculateScale();
       return {
-        x: PADDING.left + point.x * scale.x,
-        y: groundY - point.y * scale.y,
+        x: PADDING.left + (point.x - scale.minX) * scale.x,
+        y: groundY - (point.y - scale.minY) * scale.y,
+      };
+    },
+    [groundY, calculateScale]
+  );
+
+  const toWorldCoords = useCallback(
+    (point: Vector2D): Vector2D => {
+      const scale = calculateScale();
+      return {
+        x: scale.minX + (point.x - PADDING.left) / scale.x,
+        y: scale.minY + (groundY - point.y) / scale.y,
       };
     },
     [groundY, calculateScale]
   );
 
-  const drawBackground = useCallback((ctx: CanvasRenderingContext2D) => {
+  /**
+   * Launch point and aiming arrow tip in canvas pixels
+   */
+  const getAimHandle = useCallback(() => {
+    const origin = toCanvasCoords({ x: 0, y: launchHeight });
+    const length = AIM_MIN_LENGTH + launchVelocity * AIM_PIXELS_PER_MPS;
+    const angle = launchAngle * DEG_TO_RAD;
+    return {
+      origin,
+      tip: { x: origin.x + length * Math.cos(angle), y: origin.y - length * Math.sin(angle) },
+    };
+  }, [launchHeight, launchVelocity, launchAngle, toCanvasCoords]);
+
+  const drawBackground = useCallback((ctx: DrawingContext) => {
+    // Ground level moves with the camera; keep it on the canvas
+    const groundLevel = Math.max(0, Math.min(toCanvasCoords({ x: 0, y: 0 }).y, height));
+
     // Sky gradient
-    const skyGrad = ctx.createLinearGradient(0, 0, 0, groundY);
+    const skyGrad = ctx.createLinearGradient(0, 0, 0, Math.max(groundLevel, 1));
     skyGrad.addColorStop(0, COLORS.sky1);
     skyGrad.addColorStop(1, COLORS.sky2);
     ctx.fillStyle = skyGrad;
-    ctx.fillRect(0, 0, width, groundY);
+    ctx.fillRect(0, 0, width, groundLevel);
 
     // Clouds
     const drawCloud = (cx: number, cy: number, size: number) => {
@@ -95,41 +376,69 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
 
     // Ground
     ctx.fillStyle = COLORS.ground;
-    ctx.fillRect(0, groundY, width, height - groundY);
+    ctx.fillRect(0, groundLevel, width, height - groundLevel);
 
     // Grass tufts
     ctx.fillStyle = COLORS.grass;
     for (let x = 0; x < width; x += 12) {
       const h = 4 + Math.sin(x * 0.3) * 3;
       ctx.beginPath();
-      ctx.moveTo(x, groundY);
-      ctx.lineTo(x + 3, groundY - h);
-      ctx.lineTo(x + 6, groundY);
+      ctx.moveTo(x, groundLevel);
+      ctx.lineTo(x + 3, groundLevel - h);
+      ctx.lineTo(x + 6, groundLevel);
       ctx.fill();
     }
-  }, [width, height, groundY]);
+  }, [width, height, toCanvasCoords]);
+
+  const drawTerrain = useCallback((ctx: DrawingContext) => {
+    const groundLevel = toCanvasCoords({ x: 0, y: 0 }).y;
+    const drawBlock = (left: number, right: number, top: number) => {
+      ctx.fillStyle = COLORS.cliff;
+      ctx.fillRect(left, top, right - left, groundLevel - top);
+      ctx.fillStyle = COLORS.cliffDark;
+      ctx.fillRect(left, top, right - left, 4);
+    };
+
+    // Launch cliff / table under the launch point
+    if (launchHeight > 0) {
+      const top = toCanvasCoords({ x: 0, y: launchHeight });
+      drawBlock(top.x - CLIFF_WIDTH, top.x, top.y);
+    }
+
+    // Raised landing surface, starting after the peak so it never cuts the path
+    if (landingHeight > 0) {
+      const reachableHeight = Math.min(landingHeight, results.maxHeight);
+      const start = toCanvasCoords({
+        x: results.initialVelocityX * results.timeToMaxHeight,
+        y: reachableHeight,
+      });
+      drawBlock(Math.max(start.x, PADDING.left), width, start.y);
+    }
+  }, [width, launchHeight, landingHeight, results, toCanvasCoords]);
 
   const drawAxes = useCallback(
-    (ctx: CanvasRenderingContext2D) => {
+    (ctx: DrawingContext) => {
       const scale = calculateScale();
+      const toCanvasX = (x: number) => PADDING.left + (x - scale.minX) * scale.x;
+      const toCanvasY = (y: number) => groundY - (y - scale.minY) * scale.y;
 
       // Grid lines
       ctx.strokeStyle = COLORS.grid;
       ctx.lineWidth = 1;
       ctx.setLineDash([4, 4]);
 
-      const xStep = calculateNiceStep(scale.maxX, 5);
-      for (let x = xStep; x < scale.maxX; x += xStep) {
-        const canvasX = PADDING.left + x * scale.x;
+      const xStep = calculateNiceStep(scale.maxX - scale.minX, 5);
+      for (let x = Math.floor(scale.minX / xStep) * xStep + xStep; x < scale.maxX; x += xStep) {
+        const canvasX = toCanvasX(x);
         ctx.beginPath();
         ctx.moveTo(canvasX, PADDING.top);
         ctx.lineTo(canvasX, groundY);
         ctx.stroke();
       }
 
-      const yStep = calculateNiceStep(scale.maxY, 5);
-      for (let y = yStep; y < scale.maxY; y += yStep) {
-        const canvasY = groundY - y * scale.y;
+      const yStep = calculateNiceStep(scale.maxY - scale.minY, 5);
+      for (let y = Math.floor(scale.minY / yStep) * yStep + yStep; y < scale.maxY; y += yStep) {
+        const canvasY = toCanvasY(y);
         ctx.beginPath();
         ctx.moveTo(PADDING.left, canvasY);
         ctx.lineTo(width - PADDING.right, canvasY);
@@ -153,12 +462,12 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       ctx.fillStyle = COLORS.textLight;
       ctx.font = "600 11px 'Nunito', sans-serif";
       ctx.textAlign = 'center';
-      for (let x = 0; x <= scale.maxX; x += xStep) {
-        ctx.fillText(`${x.toFixed(0)}`, PADDING.left + x * scale.x, groundY + 18);
+      for (let x = Math.ceil(scale.minX / xStep) * xStep; x <= scale.maxX; x += xStep) {
+        ctx.fillText(formatTick(x, xStep), toCanvasX(x), groundY + 18);
       }
       ctx.textAlign = 'right';
-      for (let y = 0; y <= scale.maxY; y += yStep) {
-        ctx.fillText(`${y.toFixed(0)}`, PADDING.left - 10, groundY - y * scale.y + 4);
+      for (let y = Math.ceil(scale.minY / yStep) * yStep; y <= scale.maxY; y += yStep) {
+        ctx.fillText(formatTick(y, yStep), PADDING.left - 10, toCanvasY(y) + 4);
       }
 
       // Axis titles
@@ -175,9 +484,70 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     [width, height, groundY, calculateScale]
   );
 
+  const drawReferencePath = useCallback(
+    (ctx: DrawingContext) => {
+      if (!referencePath || referencePath.length < 2) return;
+
+      ctx.strokeStyle = COLORS.reference;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([2, 5]);
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      const first = toCanvasCoords(referencePath[0]);
+      ctx.moveTo(first.x, first.y);
+      for (let i = 1; i < referencePath.length; i++) {
+        const p = toCanvasCoords(referencePath[i]);
+        ctx.lineTo(p.x, p.y);
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Label near the ideal landing point
+      const end = toCanvasCoords(referencePath[referencePath.length - 1]);
+      ctx.fillStyle = COLORS.reference;
+      ctx.font = "600 10px 'Nunito', sans-serif";
+      ctx.textAlign = 'right';
+      ctx.fillText('No air resistance', end.x - 6, end.y - 10);
+    },
+    [referencePath, toCanvasCoords]
+  );
+
+  const drawGhostRuns = useCallback(
+    (ctx: DrawingContext) => {
+      ghostRuns.forEach((run) => {
+        const { positions } = run.trajectory;
+        if (positions.length < 2) return;
+
+        ctx.save();
+        ctx.globalAlpha = 0.5;
+        ctx.strokeStyle = run.color;
+        ctx.lineWidth = 2.5;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        const first = toCanvasCoords(positions[0]);
+        ctx.moveTo(first.x, first.y);
+        for (let i = 1; i < positions.length; i++) {
+          const p = toCanvasCoords(positions[i]);
+          ctx.lineTo(p.x, p.y);
+        }
+        ctx.stroke();
+        ctx.restore();
+
+        // Run number at the landing point
+        const end = toCanvasCoords(positions[positions.length - 1]);
+        ctx.fillStyle = run.color;
+        ctx.font = "700 10px 'Nunito', sans-serif";
+        ctx.textAlign = 'center';
+        ctx.fillText(`Run ${run.id}`, end.x, end.y - 8);
+      });
+    },
+    [ghostRuns, toCanvasCoords]
+  );
+
   const drawTrajectory = useCallback(
-    (ctx: CanvasRenderingContext2D) => {
-      if (trajectory.positions.length < 2) return;
+    (ctx: DrawingContext) => {
+      if (trajectory.positions.length < 2 || strobe.enabled) return;
 
       // Trajectory trail with dashes
       ctx.strokeStyle = COLORS.trajectory;
@@ -205,11 +575,198 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       }
       ctx.stroke();
     },
-    [trajectory, toCanvasCoords]
+    [trajectory, strobe.enabled, toCanvasCoords]
+  );
+
+  const drawStrobe = useCallback(
+    (ctx: DrawingContext) => {
+      if (!strobe.enabled || trajectory.positions.length === 0) return;
+
+      // One flash every Δt up to the current moment
+      const lastTime = trajectory.times[trajectory.times.length - 1];
+      const flashCount = Math.floor(lastTime / strobe.interval + 1e-9);
+      const flashes: Vector2D[] = [];
+      for (let i = 0; i <= flashCount; i++) {
+        flashes.push(toCanvasCoords(interpolateTrajectory(trajectory, i * strobe.interval).position));
+      }
+
+      // Guide lines down to the ground and across to the height axis,
+      // showing even horizontal spacing and changing vertical spacing
+      if (strobe.guides) {
+        ctx.strokeStyle = COLORS.textLight;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([2, 4]);
+        flashes.forEach((p) => {
+          ctx.beginPath();
+          ctx.moveTo(p.x, p.y);
+          ctx.lineTo(p.x, groundY);
+          ctx.moveTo(p.x, p.y);
+          ctx.lineTo(PADDING.left, p.y);
+          ctx.stroke();
+        });
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = COLORS.projectile;
+        flashes.forEach((p) => {
+          ctx.fillRect(p.x - 1, groundY - 5, 2, 10);
+          ctx.fillRect(PADDING.left - 5, p.y - 1, 10, 2);
+        });
+      }
+
+      flashes.forEach((p) => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 6, 0, Math.PI * 2);
+        ctx.fillStyle = 'rgba(232, 115, 95, 0.8)';
+        ctx.fill();
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+      });
+    },
+    [strobe, trajectory, groundY, toCanvasCoords]
+  );
+
+  const drawCompanions = useCallback(
+    (ctx: DrawingContext) => {
+      companions.forEach((companion) => {
+        const { positions } = companion.trajectory;
+
+        // Path so far
+        if (positions.length >= 2) {
+          ctx.strokeStyle = companion.color;
+          ctx.lineWidth = 3;
+          ctx.setLineDash([8, 4]);
+          ctx.lineCap = 'round';
+          ctx.beginPath();
+          const first = toCanvasCoords(positions[0]);
+          ctx.moveTo(first.x, first.y);
+          for (let i = 1; i < positions.length; i++) {
+            const p = toCanvasCoords(positions[i]);
+            ctx.lineTo(p.x, p.y);
+          }
+          ctx.stroke();
+          ctx.setLineDash([]);
+        }
+
+        // Ball with its label (waiting on the launch point until its turn)
+        if (trajectory.positions.length === 0) return;
+        const pos = toCanvasCoords(companion.state.position);
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, 8, 0, Math.PI * 2);
+        ctx.fillStyle = companion.color;
+        ctx.fill();
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        ctx.fillStyle = companion.color;
+        ctx.font = "700 11px 'Nunito', sans-serif";
+        ctx.textAlign = 'center';
+        ctx.fillText(companion.label, pos.x, pos.y - 14);
+      });
+    },
+    [companions, trajectory, toCanvasCoords]
+  );
+
+  const drawAimHandle = useCallback(
+    (ctx: DrawingContext) => {
+      if (!canAim) return;
+      const { origin, tip } = getAimHandle();
+
+      // Dotted preview of the path this aim would give
+      if (isAiming) {
+        const angle = launchAngle * DEG_TO_RAD;
+        const vx = launchVelocity * Math.cos(angle);
+        const vy = launchVelocity * Math.sin(angle);
+        const flightTime = calculateTimeOfFlight(vy, gravity, launchHeight, landingHeight);
+        const steps = 60;
+        ctx.strokeStyle = COLORS.aim;
+        ctx.lineWidth = 2;
+        ctx.lineCap = 'round';
+        ctx.setLineDash([1, 6]);
+        ctx.beginPath();
+        for (let i = 0; i <= steps; i++) {
+          const pos = toCanvasCoords(
+            calculatePositionAtTime(vx, vy, gravity, (flightTime * i) / steps, launchHeight)
+          );
+          if (i === 0) ctx.moveTo(pos.x, pos.y);
+          else ctx.lineTo(pos.x, pos.y);
+        }
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.lineCap = 'butt';
+      }
+
+      drawArrow(ctx, origin.x, origin.y, tip.x - origin.x, tip.y - origin.y, COLORS.aim, '');
+
+      // Grab knob at the tip
+      ctx.beginPath();
+      ctx.arc(tip.x, tip.y, 7, 0, Math.PI * 2);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.fill();
+      ctx.strokeStyle = COLORS.aim;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+
+      if (isAiming) {
+        ctx.font = "600 11px 'JetBrains Mono', monospace";
+        ctx.fillStyle = COLORS.text;
+        ctx.textAlign = 'left';
+        ctx.fillText(`${launchVelocity.toFixed(1)} m/s, ${launchAngle.toFixed(0)}°`, tip.x + 12, tip.y - 10);
+      }
+    },
+    [canAim, isAiming, launchVelocity, launchAngle, gravity, launchHeight, landingHeight, getAimHandle, toCanvasCoords]
+  );
+
+  const drawVectors = useCallback(
+    (ctx: DrawingContext) => {
+      const { velocity, components, acceleration, alongPath } = vectors;
+      if (!velocity && !components && !acceleration) return;
+      if (trajectory.positions.length === 0) return;
+
+      // Pixels per m/s, so the launch velocity arrow has a fixed length.
+      // The acceleration arrow shows the change in velocity over one second.
+      const launchSpeed = Math.hypot(results.initialVelocityX, results.initialVelocityY);
+      const pixelsPerUnit = VECTOR_ARROW_LENGTH / Math.max(launchSpeed, 1);
+
+      // Labels only at the projectile, to keep the path readable
+      const drawAt = (position: Vector2D, v: Vector2D, labelled: boolean) => {
+        const origin = toCanvasCoords(position);
+        const vx = v.x * pixelsPerUnit;
+        const vy = -v.y * pixelsPerUnit;
+        const label = (text: string) => (labelled ? text : '');
+
+        if (components) {
+          drawArrow(ctx, origin.x, origin.y, vx, 0, COLORS.component, label('vₓ'), true);
+          drawArrow(ctx, origin.x, origin.y, 0, vy, COLORS.component, label('vᵧ'), true);
+        }
+        if (velocity) {
+          drawArrow(ctx, origin.x, origin.y, vx, vy, COLORS.velocity, label('v'));
+        }
+        if (acceleration) {
+          drawArrow(ctx, origin.x, origin.y, 0, gravity * pixelsPerUnit, COLORS.acceleration, label('g'));
+        }
+      };
+
+      // Repeated along the path at regular times (at each flash in strobe mode)
+      if (alongPath) {
+        const interval = strobe.enabled ? strobe.interval : VECTOR_PATH_INTERVAL;
+        const lastTime = trajectory.times[trajectory.times.length - 1];
+        for (let t = 0; t < lastTime; t += interval) {
+          const sample = interpolateTrajectory(trajectory, t);
+          drawAt(sample.position, sample.velocity, false);
+        }
+      }
+
+      // At the projectile itself
+      const last = trajectory.velocities.length - 1;
+      drawAt(currentPosition, currentVelocity ?? trajectory.velocities[last], true);
+    },
+    [vectors, strobe, trajectory, results, gravity, currentPosition, currentVelocity, toCanvasCoords]
   );
 
   const drawProjectile = useCallback(
-    (ctx: CanvasRenderingContext2D) => {
+    (ctx: DrawingContext) => {
       const pos = toCanvasCoords(currentPosition);
 
       // Outer glow
@@ -234,7 +791,7 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       ctx.fill();
 
       // Dynamic label following projectile
-      if (isActive || currentPosition.x > 0 || currentPosition.y > 0) {
+      if (isActive || trajectory.positions.length > 0) {
         const speed = Math.sqrt(
           (trajectory.velocities.length > 0 ? trajectory.velocities[trajectory.velocities.length - 1]?.x || 0 : 0) ** 2 +
           (trajectory.velocities.length > 0 ? trajectory.velocities[trajectory.velocities.length - 1]?.y || 0 : 0) ** 2
@@ -275,11 +832,11 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   );
 
   const drawHighlights = useCallback(
-    (ctx: CanvasRenderingContext2D) => {
+    (ctx: DrawingContext) => {
       // Peak point
       if (results.maxHeight > 0) {
         const peakPos = toCanvasCoords({
-          x: results.horizontalRange / 2,
+          x: results.initialVelocityX * results.timeToMaxHeight,
           y: results.maxHeight,
         });
 
@@ -287,7 +844,7 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.lineWidth = 1;
         ctx.setLineDash([4, 4]);
         ctx.beginPath();
-        ctx.moveTo(peakPos.x, groundY);
+        ctx.moveTo(peakPos.x, toCanvasCoords({ x: 0, y: 0 }).y);
         ctx.lineTo(peakPos.x, peakPos.y);
         ctx.stroke();
         ctx.setLineDash([]);
@@ -312,7 +869,7 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       if (results.horizontalRange > 0) {
         const landingPos = toCanvasCoords({
           x: results.horizontalRange,
-          y: 0,
+          y: Math.min(landingHeight, results.maxHeight),
         });
 
         ctx.beginPath();
@@ -331,33 +888,489 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.fillText(`Range: ${results.horizontalRange.toFixed(1)}m`, landingPos.x, landingPos.y + 22);
       }
     },
-    [groundY, results, toCanvasCoords]
+    [results, landingHeight, toCanvasCoords]
   );
 
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  const drawHoverMarker = useCallback(
+    (ctx: DrawingContext) => {
+      if (hoverTime === null) return;
+
+      const paths = [
+        { path: trajectory, color: COLORS.projectile },
+        ...companions.map((companion) => ({ path: companion.trajectory, color: companion.color })),
+      ];
+      paths.forEach(({ path, color }, index) => {
+        const { times } = path;
+        if (times.length === 0 || hoverTime < times[0] || hoverTime > times[times.length - 1]) return;
+        const pos = toCanvasCoords(interpolateTrajectory(path, hoverTime).position);
+
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, 9, 0, Math.PI * 2);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.fill();
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([3, 2]);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        // Label the main projectile only
+        if (index === 0) {
+          ctx.font = "600 10px 'JetBrains Mono', monospace";
+          ctx.fillStyle = COLORS.hover;
+          ctx.textAlign = 'center';
+          ctx.fillText(`t = ${hoverTime.toFixed(2)} s`, pos.x, pos.y - 14);
+        }
+      });
+    },
+    [hoverTime, trajectory, companions, toCanvasCoords]
+  );
+
+  const drawMarkers = useCallback(
+    (ctx: DrawingContext) => {
+      // Wall standing on the ground
+      if (wall) {
+        const top = toCanvasCoords({ x: wall.x, y: wall.height });
+        const bottom = toCanvasCoords({ x: wall.x, y: 0 });
+        ctx.fillStyle = COLORS.wall;
+        ctx.fillRect(top.x - WALL_WIDTH / 2, top.y, WALL_WIDTH, bottom.y - top.y);
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 1;
+        for (let y = top.y + 8; y < bottom.y; y += 8) {
+          ctx.beginPath();
+          ctx.moveTo(top.x - WALL_WIDTH / 2, y);
+          ctx.lineTo(top.x + WALL_WIDTH / 2, y);
+          ctx.stroke();
+        }
+      }
+
+      const points: HighlightPoint[] = [...highlights];
+      if (target) {
+        points.push({
+          position: target,
+          label: `Target (${target.x.toFixed(1)}, ${target.y.toFixed(1)})`,
+          type: 'target',
+        });
+      }
+
+      points.forEach((point) => {
+        const pos = toCanvasCoords(point.position);
+
+        if (point.type === 'impact') {
+          // Cross where the shot ended
+          ctx.strokeStyle = COLORS.target;
+          ctx.lineWidth = 3;
+          ctx.beginPath();
+          ctx.moveTo(pos.x - 6, pos.y - 6);
+          ctx.lineTo(pos.x + 6, pos.y + 6);
+          ctx.moveTo(pos.x + 6, pos.y - 6);
+          ctx.lineTo(pos.x - 6, pos.y + 6);
+          ctx.stroke();
+        } else {
+          // Hit zone drawn to scale, then bullseye rings
+          if (point.radius) {
+            const scale = calculateScale();
+            ctx.beginPath();
+            ctx.ellipse(pos.x, pos.y, point.radius * scale.x, point.radius * scale.y, 0, 0, Math.PI * 2);
+            ctx.fillStyle = 'rgba(224, 107, 139, 0.15)';
+            ctx.fill();
+          }
+          [14, 9, 4].forEach((radius, i) => {
+            ctx.beginPath();
+            ctx.arc(pos.x, pos.y, radius, 0, Math.PI * 2);
+            ctx.fillStyle = i % 2 === 0 ? COLORS.target : '#fff';
+            ctx.fill();
+          });
+        }
 
+        ctx.fillStyle = COLORS.target;
+        ctx.font = "700 11px 'Nunito', sans-serif";
+        ctx.textAlign = 'center';
+        ctx.fillText(point.label, pos.x, pos.y - 20);
+      });
+    },
+    [wall, highlights, target, toCanvasCoords, calculateScale]
+  );
+
+  /**
+   * Draw the whole scene, in CSS pixels, onto a canvas with `ratio` device pixels each
+   */
+  const renderScene = useCallback((ctx: DrawingContext, ratio: number) => {
+    // Keep the scene out of the axis labels when zoomed or panned
+    const clipToScene = () => {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, 0, width, height - PADDING.bottom + SCENE_OVERHANG);
+      ctx.clip();
+    };
+
+    // Draw in CSS pixels; the transform maps them onto device pixels
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
     ctx.clearRect(0, 0, width, height);
     drawBackground(ctx);
+    clipToScene();
+    drawTerrain(ctx);
+    ctx.restore();
     drawAxes(ctx);
+    clipToScene();
+    drawReferencePath(ctx);
+    drawGhostRuns(ctx);
     drawTrajectory(ctx);
+    drawStrobe(ctx);
     drawHighlights(ctx);
+    drawMarkers(ctx);
+    drawCompanions(ctx);
+    drawHoverMarker(ctx);
     drawProjectile(ctx);
-  }, [width, height, currentPosition, trajectory, drawBackground, drawAxes, drawTrajectory, drawProjectile, drawHighlights]);
+    drawAimHandle(ctx);
+    drawVectors(ctx);
+    ctx.restore();
+  }, [width, height, drawBackground, drawTerrain, drawAxes, drawReferencePath, drawGhostRuns, drawTrajectory, drawProjectile, drawHighlights, drawMarkers, drawCompanions, drawVectors, drawStrobe, drawAimHandle, drawHoverMarker]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    renderScene(ctx, pixelRatio);
+
+    // Let an animation export know its frame is on the canvas
+    const waiting = frameDrawnRef.current;
+    if (waiting && waiting.time === frameTime) {
+      frameDrawnRef.current = null;
+      waiting.resolve();
+    }
+  }, [renderScene, pixelRatio, frameTime]);
+
+  /**
+   * Draw the flight as it was at `time` and wait until it is on the canvas
+   */
+  const showFrame = (time: number) => new Promise<void>((resolve) => {
+    frameDrawnRef.current = { time, resolve };
+    setFrameTime(time);
+  });
+
+  /**
+   * Replay the recorded flight into an animated GIF, one frame at a time
+   */
+  const recordGif = async (): Promise<Blob> => {
+    const canvas = canvasRef.current;
+    const frameCanvas = document.createElement('canvas');
+    frameCanvas.width = width;
+    frameCanvas.height = height;
+    const frameCtx = frameCanvas.getContext('2d', { willReadFrequently: true });
+    if (!canvas || !frameCtx) throw new Error('Canvas drawing is not supported');
+
+    const encoder = new GifEncoder(width, height);
+    const frameCount = Math.ceil(flightEnd * ANIMATION_EXPORT_FPS);
+    for (let i = 0; i <= frameCount; i++) {
+      await showFrame(Math.min(i / ANIMATION_EXPORT_FPS, flightEnd));
+      frameCtx.drawImage(canvas, 0, 0, width, height);
+      const isLast = i === frameCount;
+      encoder.addFrame(frameCtx.getImageData(0, 0, width, height).data, isLast ? ANIMATION_END_PAUSE : 1000 / ANIMATION_EXPORT_FPS);
+      setRecordingProgress(i / frameCount);
+    }
+    return new Blob([encoder.finish()], { type: 'image/gif' });
+  };
+
+  /**
+   * Replay the recorded flight in real time while the browser records the canvas
+   */
+  const recordWebm = async (): Promise<Blob> => {
+    const canvas = canvasRef.current;
+    if (!canvas) throw new Error('Canvas drawing is not supported');
+
+    await showFrame(0);
+    const recorder = new MediaRecorder(canvas.captureStream(ANIMATION_EXPORT_FPS), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+    recorder.start();
+
+    const start = performance.now();
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, 1000 / ANIMATION_EXPORT_FPS));
+      const time = (performance.now() - start) / 1000;
+      if (time >= flightEnd) break;
+      await showFrame(time);
+      setRecordingProgress(time / flightEnd);
+    }
+    await showFrame(flightEnd);
+    await new Promise((resolve) => setTimeout(resolve, ANIMATION_END_PAUSE));
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+  };
+
+  const handleExport = async (format: ImageExportFormat) => {
+    if (format === 'png') {
+      downloadFile(getFileName(EXPORT_NAME, 'png'), await renderToPng(width, height, IMAGE_EXPORT_SCALE, renderScene), 'image/png');
+    } else if (format === 'svg') {
+      downloadFile(getFileName(EXPORT_NAME, 'svg'), renderToSvg(width, height, renderScene), 'image/svg+xml');
+    } else {
+      setRecordingProgress(0);
+      try {
+        const blob = format === 'gif' ? await recordGif() : await recordWebm();
+        downloadFile(getFileName(EXPORT_NAME, format), blob, blob.type);
+      } finally {
+        setFrameTime(null);
+        setRecordingProgress(null);
+      }
+    }
+  };
+
+  // Video needs the browser's recorder; GIFs are built here and always work
+  const exportFormats: ImageExportFormat[] = typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/webm')
+    ? ['png', 'svg', 'gif', 'webm']
+    : ['png', 'svg', 'gif'];
+
+  /**
+   * Pointer or wheel position in canvas pixels
+   */
+  const getCanvasPoint = useCallback((event: { clientX: number; clientY: number }): Vector2D => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: (event.clientX - rect.left) * (width / rect.width),
+      y: (event.clientY - rect.top) * (height / rect.height),
+    };
+  }, [width, height]);
+
+  /**
+   * Zoom by `factor`, keeping the world point under `anchor` (canvas pixels) in place
+   */
+  const zoomAt = useCallback((anchor: Vector2D, factor: number) => {
+    const scale = calculateScale();
+    const world = toWorldCoords(anchor);
+    setCamera((prev) => {
+      const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.zoom * factor));
+      const applied = zoom / prev.zoom;
+      return {
+        zoom,
+        origin: {
+          x: world.x - (world.x - scale.minX) / applied,
+          y: world.y - (world.y - scale.minY) / applied,
+        },
+      };
+    });
+  }, [calculateScale, toWorldCoords]);
+
+  const zoomAtCenter = (factor: number) => {
+    zoomAt({ x: (PADDING.left + width - PADDING.right) / 2, y: (PADDING.top + groundY) / 2 }, factor);
+  };
+
+  // Wheel zoom (registered by hand so the page doesn't scroll as well)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomAt(getCanvasPoint(event), Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAt, getCanvasPoint]);
+
+  /**
+   * Aim from the launch point towards `point`, within the allowed angles and speeds
+   */
+  const aimAt = (point: Vector2D) => {
+    const { origin } = getAimHandle();
+    const dx = point.x - origin.x;
+    const dy = origin.y - point.y;
+    const angle = Math.round(Math.atan2(dy, dx) * RAD_TO_DEG);
+    const speed = Math.round(((Math.hypot(dx, dy) - AIM_MIN_LENGTH) / AIM_PIXELS_PER_MPS) * 2) / 2;
+    const newAngle = Math.max(LIMITS.angle.min, Math.min(LIMITS.angle.max, angle));
+    const newSpeed = Math.max(LIMITS.velocity.min, Math.min(LIMITS.velocity.max, speed));
+    if (newAngle !== launchAngle || newSpeed !== launchVelocity) {
+      onAim?.(newAngle, newSpeed);
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = getCanvasPoint(event);
+
+    // Grabbing the launcher or the arrow tip aims instead of panning
+    if (canAim && pointersRef.current.size === 0) {
+      const { origin, tip } = getAimHandle();
+      const nearTip = Math.hypot(point.x - tip.x, point.y - tip.y) <= AIM_HANDLE_RADIUS;
+      const nearLauncher = Math.hypot(point.x - origin.x, point.y - origin.y) <= AIM_HANDLE_RADIUS;
+      if (nearTip || nearLauncher) {
+        aimPointerRef.current = event.pointerId;
+        setIsAiming(true);
+        return;
+      }
+    }
+
+    pointersRef.current.set(event.pointerId, point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.pointerId === aimPointerRef.current) {
+      aimAt(getCanvasPoint(event));
+      return;
+    }
+
+    const pointers = pointersRef.current;
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+    const point = getCanvasPoint(event);
+
+    if (pointers.size === 1) {
+      // Drag to pan; grabbing the view also stops following the projectile
+      const scale = calculateScale();
+      const dx = (point.x - previous.x) / scale.x;
+      const dy = (point.y - previous.y) / scale.y;
+      if (follow) {
+        setFollow(false);
+        setCamera((prev) => ({ ...prev, origin: { x: scale.minX - dx, y: scale.minY + dy } }));
+      } else {
+        setCamera((prev) => ({ ...prev, origin: { x: prev.origin.x - dx, y: prev.origin.y + dy } }));
+      }
+    } else {
+      // Pinch to zoom about the midpoint between the two fingers
+      const other = [...pointers.entries()].find(([id]) => id !== event.pointerId)?.[1];
+      if (other) {
+        const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+        const after = Math.hypot(point.x - other.x, point.y - other.y);
+        if (before > 0) {
+          zoomAt({ x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 }, after / before);
+        }
+      }
+    }
+
+    pointers.set(event.pointerId, point);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.pointerId === aimPointerRef.current) {
+      aimPointerRef.current = null;
+      setIsAiming(false);
+    }
+    pointersRef.current.delete(event.pointerId);
+  };
 
   return (
-    <canvas
-      ref={canvasRef}
-      width={width}
-      height={height}
-      className="simulation-canvas rounded-xl"
-    />
+    <div ref={containerRef} className="simulation-canvas relative overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        width={Math.round(width * pixelRatio)}
+        height={Math.round(height * pixelRatio)}
+        style={{ width, height }}
+        className="block max-w-full touch-none cursor-grab active:cursor-grabbing"
+        aria-label="Projectile simulation"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+
+      {/* Camera controls */}
+      <div className="absolute top-2 right-2 flex gap-1">
+        <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomAtCenter(ZOOM_STEP)} aria-label="Zoom in" title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </Button>
+        <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomAtCenter(1 / ZOOM_STEP)} aria-label="Zoom out" title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant="secondary"
+          className="h-8 w-8"
+          onClick={() => {
+            setCamera(FIT_CAMERA);
+            setFollow(false);
+          }}
+          aria-label="Fit all"
+          title="Fit all"
+        >
+          <Maximize className="w-4 h-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant={equalScales ? 'default' : 'secondary'}
+          className="h-8 w-8"
+          onClick={() => setEqualScales(!equalScales)}
+          aria-label="Equal x and y scales"
+          aria-pressed={equalScales}
+          title="Equal x and y scales (true angles)"
+        >
+          <Ratio className="w-4 h-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant={follow ? 'default' : 'secondary'}
+          className="h-8 w-8"
+          onClick={() => setFollow(!follow)}
+          aria-label="Follow the projectile"
+          aria-pressed={follow}
+          title="Follow the projectile"
+        >
+          <LocateFixed className="w-4 h-4" />
+        </Button>
+        <ImageExportMenu
+          formats={exportFormats}
+          onExport={handleExport}
+          progress={recordingProgress}
+          disabledFormats={isFlightComplete ? [] : ['gif', 'webm']}
+          disabledHint="Let the flight finish to save it as an animation."
+        />
+      </div>
+    </div>
   );
 };
 
+/**
+ * Arrow from (x, y) along (dx, dy) in canvas pixels, labelled at its tip
+ */
+function drawArrow(
+  ctx: DrawingContext,
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  color: string,
+  label: string,
+  dashed: boolean = false
+) {
+  const length = Math.hypot(dx, dy);
+  if (length < 2) return;
+
+  const headSize = Math.min(8, length / 2);
+  const angle = Math.atan2(dy, dx);
+  const tipX = x + dx;
+  const tipY = y + dy;
+
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+  ctx.setLineDash(dashed ? [4, 3] : []);
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(tipX - headSize * Math.cos(angle), tipY - headSize * Math.sin(angle));
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  ctx.beginPath();
+  ctx.moveTo(tipX, tipY);
+  ctx.lineTo(tipX - headSize * Math.cos(angle - Math.PI / 6), tipY - headSize * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(tipX - headSize * Math.cos(angle + Math.PI / 6), tipY - headSize * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+
+  if (!label) return;
+  ctx.font = "700 11px 'Nunito', sans-serif";
+  ctx.textAlign = 'center';
+  ctx.fillText(label, tipX + 10 * Math.cos(angle), tipY + 10 * Math.sin(angle) + 4);
+}
+
+/**
+ * Axis label with just enough decimals for the grid step
+ */
+function formatTick(value: number, step: number): string {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return value.toFixed(decimals);
+}
+
 function calculateNiceStep(maxValue: number, targetSteps: number): number {
   const roughStep = maxValue / targetSteps;
   const magnitude = Math.pow(10, Math.floor(Math.log10(roughStep)));
@@ -0,0 +1,197 @@
+/**
+ * TargetSolver.tsx - "What launch hits this target?" controls
+ *
+ * Students place a target, fix either the speed or the angle, and ask
+ * the lab to work out the other. Each solution can be applied to the
+ * launch parameters and then launched to check it.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Crosshair, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { solveForAngle, solveForSpeed, calculateMinimumSpeed } from '../physics/solver';
+import { isDragEnabled } from '../physics/drag';
+import { LIMITS, DECIMAL_PLACES } from '../physics/constants';
+import { LaunchParameters, SolveFor, TargetSolution, Vector2D } from '../physics/types';
+
+interface TargetSolverProps {
+  params: LaunchParameters;
+  target: Vector2D;
+  onTargetChange: (target: Vector2D) => void;
+  onRemoveTarget: () => void;
+  onParamsChange: (params: LaunchParameters) => void;
+  disabled?: boolean;
+}
+
+const ARC_LABELS: Record<TargetSolution['arc'], string> = {
+  low: 'Low arc',
+  high: 'High arc',
+  only: 'Solution',
+};
+
+export const TargetSolver: React.FC<TargetSolverProps> = ({
+  params,
+  target,
+  onTargetChange,
+  onRemoveTarget,
+  onParamsChange,
+  disabled = false,
+}) => {
+  const [solveFor, setSolveFor] = useState<SolveFor>('angle');
+  const [solved, setSolved] = useState(false);
+
+  // Worked out from the current launch, so a change of gravity, height or
+  // the fixed speed/angle (from the sliders, a session or a link) is followed
+  const solutions = useMemo<TargetSolution[] | null>(() => {
+    if (!solved) return null;
+    return solveFor === 'angle'
+      ? solveForAngle(params.initialVelocity, target, params.gravity, params.launchHeight)
+      : solveForSpeed(params.launchAngle, target, params.gravity, params.launchHeight);
+  }, [solved, solveFor, params.initialVelocity, params.launchAngle, params.gravity, params.launchHeight, target]);
+
+  const handleTargetChange = (field: keyof Vector2D, text: string) => {
+    const value = parseFloat(text);
+    if (!Number.isFinite(value)) return; // Keep the last valid value while the box is empty
+    const limits = field === 'x' ? LIMITS.distance : LIMITS.height;
+    onTargetChange({
+      ...target,
+      [field]: Math.max(limits.min, Math.min(limits.max, value)),
+    });
+    setSolved(false);
+  };
+
+  const handleApply = (solution: TargetSolution) => {
+    onParamsChange({
+      ...params,
+      initialVelocity: solution.initialVelocity,
+      launchAngle: solution.launchAngle,
+    });
+  };
+
+  const minimumSpeed = calculateMinimumSpeed(target, params.gravity, params.launchHeight);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Place a target, then let the lab work backwards to find a launch that hits it.
+      </p>
+
+      {/* Target position */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Target distance (m)</Label>
+          <Input
+            type="number"
+            value={target.x}
+            onChange={(e) => handleTargetChange('x', e.target.value)}
+            min={LIMITS.distance.min}
+            max={LIMITS.distance.max}
+            step={1}
+            disabled={disabled}
+            className="lab-input text-center"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Target height (m)</Label>
+          <Input
+            type="number"
+            value={target.y}
+            onChange={(e) => handleTargetChange('y', e.target.value)}
+            min={LIMITS.height.min}
+            max={LIMITS.height.max}
+            step={0.5}
+            disabled={disabled}
+            className="lab-input text-center"
+          />
+        </div>
+      </div>
+
+      {/* What to solve for */}
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Solve for</Label>
+        <Select
+          value={solveFor}
+          onValueChange={(value) => {
+            setSolveFor(value as SolveFor);
+            setSolved(false);
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="lab-input">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="angle">Angle (keep v₀ = {params.initialVelocity.toFixed(1)} m/s)</SelectItem>
+            <SelectItem value="speed">Speed (keep θ = {params.launchAngle.toFixed(1)}°)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-3">
+        <Button onClick={() => setSolved(true)} disabled={disabled} variant="secondary" className="flex-1">
+          <Crosshair className="w-4 h-4 mr-2" />
+          Solve
+        </Button>
+        <Button onClick={onRemoveTarget} disabled={disabled} variant="ghost">
+          <X className="w-4 h-4 mr-2" />
+          Remove target
+        </Button>
+      </div>
+
+      {/* Solutions */}
+      {solutions && (
+        solutions.length === 0 ? (
+          <div className="p-3 bg-secondary/50 rounded-lg text-sm">
+            <p className="text-destructive font-medium">Unreachable</p>
+            <p className="text-muted-foreground">
+              {solveFor === 'angle'
+                ? `This target needs at least ${minimumSpeed.toFixed(DECIMAL_PLACES)} m/s.`
+                : 'At this angle the path can never rise high enough to reach the target.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {solutions.map((solution) => (
+              <div
+                key={solution.arc}
+                className="p-3 bg-secondary/50 rounded-lg flex items-center justify-between gap-3"
+              >
+                <div className="text-sm">
+                  <p className="font-medium text-foreground">{ARC_LABELS[solution.arc]}</p>
+                  <p className="mono text-primary">
+                    θ = {solution.launchAngle.toFixed(DECIMAL_PLACES)}°, v₀ = {solution.initialVelocity.toFixed(DECIMAL_PLACES)} m/s
+                  </p>
+                  <p className="mono text-xs text-muted-foreground">
+                    reaches target at t = {solution.timeToTarget.toFixed(DECIMAL_PLACES)} s
+                  </p>
+                  {!solution.withinLimits && (
+                    <p className="text-xs text-destructive">Outside the lab's slider limits</p>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleApply(solution)}
+                  disabled={disabled || !solution.withinLimits}
+                >
+                  Use
+                </Button>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {isDragEnabled(params.drag) && (
+        <p className="text-xs text-muted-foreground">
+          💡 The solver ignores air resistance, so with drag switched on the shot will fall short.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TargetSolver;
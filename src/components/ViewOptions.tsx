@@ -0,0 +1,108 @@
+/**
+ * ViewOptions.tsx - What to draw on the simulation canvas
+ *
+ * Toggles for the vector arrows we'd otherwise sketch on the whiteboard:
+ * velocity, its components and gravity, at the projectile and
+ * (optionally) repeated along the path.
+ *
+ * Strobe mode replaces the path line with a multi-flash photo, so the
+ * even horizontal spacing and changing vertical spacing stand out.
+ */
+
+import React from 'react';
+import { MoveUpRight, Zap } from 'lucide-react';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { STROBE_INTERVALS } from '../physics/constants';
+import { StrobeOptions, VectorOptions } from '../physics/types';
+
+interface ViewOptionsProps {
+  vectors: VectorOptions;
+  onVectorsChange: (vectors: VectorOptions) => void;
+  strobe: StrobeOptions;
+  onStrobeChange: (strobe: StrobeOptions) => void;
+}
+
+const VECTOR_TOGGLES: { key: keyof VectorOptions; label: string }[] = [
+  { key: 'velocity', label: 'v' },
+  { key: 'components', label: 'vₓ, vᵧ' },
+  { key: 'acceleration', label: 'g' },
+  { key: 'alongPath', label: 'Along path' },
+];
+
+export const ViewOptions: React.FC<ViewOptionsProps> = ({
+  vectors,
+  onVectorsChange,
+  strobe,
+  onStrobeChange,
+}) => {
+  const selected = VECTOR_TOGGLES.filter(({ key }) => vectors[key]).map(({ key }) => key);
+
+  const handleChange = (values: string[]) => {
+    onVectorsChange({
+      velocity: values.includes('velocity'),
+      components: values.includes('components'),
+      acceleration: values.includes('acceleration'),
+      alongPath: values.includes('alongPath'),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Vector arrows */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-muted-foreground flex items-center gap-1">
+          <MoveUpRight className="w-4 h-4" />
+          Vectors
+        </span>
+        <ToggleGroup type="multiple" size="sm" value={selected} onValueChange={handleChange}>
+          {VECTOR_TOGGLES.map(({ key, label }) => (
+            <ToggleGroupItem key={key} value={key} className="text-xs px-2">
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {/* Strobe view */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-muted-foreground flex items-center gap-1">
+          <Zap className="w-4 h-4" />
+          Strobe
+        </span>
+        <Switch
+          checked={strobe.enabled}
+          onCheckedChange={(checked) => onStrobeChange({ ...strobe, enabled: checked })}
+          aria-label="Strobe view"
+        />
+        <Select
+          value={String(strobe.interval)}
+          onValueChange={(value) => onStrobeChange({ ...strobe, interval: parseFloat(value) })}
+          disabled={!strobe.enabled}
+        >
+          <SelectTrigger className="w-28 h-8 lab-input text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STROBE_INTERVALS.map((interval) => (
+              <SelectItem key={interval} value={String(interval)}>Δt = {interval} s</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="strobe-guides"
+            checked={strobe.guides}
+            onCheckedChange={(checked) => onStrobeChange({ ...strobe, guides: checked })}
+            disabled={!strobe.enabled}
+          />
+          <Label htmlFor="strobe-guides" className="text-xs text-muted-foreground">Guide lines</Label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ViewOptions;
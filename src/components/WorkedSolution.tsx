@@ -0,0 +1,82 @@
+/**
+ * WorkedSolution.tsx - "Show working" for the results
+ *
+ * Derives every result from the launch values one step at a time, with
+ * the formula, the numbers substituted and the answer, so students can
+ * check their own working line by line.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, ListOrdered } from 'lucide-react';
+import { Button } from './ui/button';
+import { DECIMAL_PLACES, INTEGRATOR_LABELS } from '../physics/constants';
+import { isDragEnabled } from '../physics/drag';
+import { getWorkedSolution } from '../physics/workedSolution';
+import { IntegratorSettings, LaunchParameters } from '../physics/types';
+
+interface WorkedSolutionProps {
+  params: LaunchParameters;
+  integrator: IntegratorSettings; // The working is exact; say so when the run wasn't
+}
+
+export const WorkedSolution: React.FC<WorkedSolutionProps> = ({ params, integrator }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const steps = useMemo(() => getWorkedSolution(params), [params]);
+
+  // When the results above come from something other than these equations
+  const caveat = isDragEnabled(params.drag)
+    ? 'Air resistance is on, so the results above were solved numerically. '
+      + 'This working is for the same launch without air resistance (the ideal values).'
+    : integrator.method !== 'analytic'
+      ? `The results above come from the ${INTEGRATOR_LABELS[integrator.method]} method `
+        + `(Δt = ${integrator.timeStep} s), so they differ slightly from this exact working.`
+      : null;
+
+  return (
+    <div className="p-3 bg-secondary/50 rounded-lg space-y-3">
+      <Button
+        variant="ghost"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-0 h-auto hover:bg-transparent"
+      >
+        <h4 className="text-sm font-medium text-foreground flex items-center gap-2">
+          <ListOrdered className="w-4 h-4 text-primary" />
+          Show working
+        </h4>
+        {isExpanded ? (
+          <ChevronUp className="w-4 h-4 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="w-4 h-4 text-muted-foreground" />
+        )}
+      </Button>
+
+      {isExpanded && (
+        <div className="space-y-3">
+          {caveat && <p className="text-xs text-muted-foreground">{caveat}</p>}
+
+          <ol className="space-y-3">
+            {steps.map((step, index) => (
+              <li key={step.quantity} className="text-sm">
+                <p className="text-muted-foreground">
+                  {index + 1}. {step.quantity}
+                </p>
+                <p className="mono text-foreground break-words">
+                  {step.formula} = {step.substitution} ={' '}
+                  <span className="text-primary">{step.value.toFixed(DECIMAL_PLACES)} {step.unit}</span>
+                </p>
+                {step.note && <p className="text-xs text-muted-foreground">{step.note}</p>}
+              </li>
+            ))}
+          </ol>
+
+          <p className="text-xs text-muted-foreground">
+            Values carried between steps are rounded to {DECIMAL_PLACES} decimal places; each answer uses the unrounded values.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkedSolution;
@@ -0,0 +1,74 @@
+/**
+ * useCanvasSize.ts - Custom hook for sizing a canvas to its container
+ *
+ * This hook handles:
+ * - Watching the container's width with a ResizeObserver
+ * - Keeping the preferred aspect ratio (with a minimum height for phones)
+ * - Reporting the device pixel ratio so drawings stay sharp on Retina screens
+ */
+
+import { useEffect, useRef, useState } from 'react';
+
+interface CanvasSize {
+  width: number;      // CSS pixels
+  height: number;     // CSS pixels
+  pixelRatio: number; // Device pixels per CSS pixel
+}
+
+interface UseCanvasSizeReturn extends CanvasSize {
+  containerRef: React.RefObject<HTMLDivElement>;
+}
+
+function getPixelRatio(): number {
+  return typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+}
+
+/**
+ * @param preferredWidth - Width the drawing was designed for; also used before the first measurement
+ * @param preferredHeight - Height at the preferred width (sets the aspect ratio)
+ * @param minHeight - Never shorter than this, so narrow screens stay readable
+ */
+export function useCanvasSize(
+  preferredWidth: number,
+  preferredHeight: number,
+  minHeight = 0
+): UseCanvasSizeReturn {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<CanvasSize>({
+    width: preferredWidth,
+    height: preferredHeight,
+    pixelRatio: getPixelRatio(),
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const width = Math.floor(container.clientWidth);
+      if (width <= 0) return;
+      const height = Math.max(minHeight, Math.round((width * preferredHeight) / preferredWidth));
+      const pixelRatio = getPixelRatio();
+      setSize((prev) => (
+        prev.width === width && prev.height === height && prev.pixelRatio === pixelRatio
+          ? prev
+          : { width, height, pixelRatio }
+      ));
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+
+    // Moving the window to another screen changes the pixel ratio without a resize
+    const media = window.matchMedia(`(resolution: ${getPixelRatio()}dppx)`);
+    media.addEventListener('change', measure);
+
+    return () => {
+      observer.disconnect();
+      media.removeEventListener('change', measure);
+    };
+  }, [preferredWidth, preferredHeight, minHeight]);
+
+  return { containerRef, ...size };
+}
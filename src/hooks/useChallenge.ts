@@ -0,0 +1,133 @@
+/**
+ * useChallenge.ts - Custom hook for the target-practice challenge
+ *
+ * This hook handles:
+ * - Placing a new random target each round
+ * - Scoring each launch (hit/miss, distance, streaks)
+ * - Keeping a record of every attempt for the teacher
+ */
+
+import { useCallback, useState } from 'react';
+import { generateChallengeTarget, evaluateAttempt } from '../physics/challenge';
+import { DEFAULT_CHALLENGE_SETTINGS } from '../physics/constants';
+import {
+  ChallengeAttempt,
+  ChallengeSettings,
+  ChallengeTarget,
+  LaunchParameters,
+  TrajectoryData,
+} from '../physics/types';
+
+interface UseChallengeProps {
+  params: LaunchParameters;
+}
+
+interface UseChallengeReturn {
+  settings: ChallengeSettings;
+  isActive: boolean;
+  isFinished: boolean;
+  round: number; // 1-based; 0 before the challenge starts
+  target: ChallengeTarget | null;
+  attempts: ChallengeAttempt[];
+  lastAttempt: ChallengeAttempt | null; // Shot taken at the current target, if any
+  score: number;
+  streak: number;
+  bestStreak: number;
+  start: (settings: ChallengeSettings) => void;
+  recordAttempt: (trajectory: TrajectoryData) => void;
+  nextRound: () => void;
+  stop: () => void;
+}
+
+/**
+ * Challenge state hook
+ */
+export function useChallenge({ params }: UseChallengeProps): UseChallengeReturn {
+  const [settings, setSettings] = useState<ChallengeSettings>(DEFAULT_CHALLENGE_SETTINGS);
+  const [round, setRound] = useState(0);
+  const [target, setTarget] = useState<ChallengeTarget | null>(null);
+  const [attempts, setAttempts] = useState<ChallengeAttempt[]>([]);
+  const [streak, setStreak] = useState(0);
+  const [bestStreak, setBestStreak] = useState(0);
+
+  const lastAttempt = attempts.length > 0 && attempts[attempts.length - 1].round === round
+    ? attempts[attempts.length - 1]
+    : null;
+  const isActive = target !== null;
+  const isFinished = isActive && round >= settings.rounds && lastAttempt !== null;
+  const score = attempts.filter((attempt) => attempt.hit).length;
+
+  /**
+   * Start a new challenge with the first target
+   */
+  const start = useCallback((newSettings: ChallengeSettings) => {
+    setSettings(newSettings);
+    setRound(1);
+    setTarget(generateChallengeTarget(newSettings, params));
+    setAttempts([]);
+    setStreak(0);
+    setBestStreak(0);
+  }, [params]);
+
+  /**
+   * Score the finished flight against the current target (one shot per target)
+   */
+  const recordAttempt = useCallback((trajectory: TrajectoryData) => {
+    if (!target || lastAttempt || trajectory.positions.length === 0) return;
+
+    const { missDistance, hit, blockedByWall, impactPoint } = evaluateAttempt(trajectory, target);
+
+    setAttempts((prev) => [
+      ...prev,
+      {
+        round,
+        initialVelocity: params.initialVelocity,
+        launchAngle: params.launchAngle,
+        target: target.position,
+        missDistance,
+        impactPoint,
+        hit,
+        blockedByWall,
+        timestamp: Date.now(),
+      },
+    ]);
+
+    const newStreak = hit ? streak + 1 : 0;
+    setStreak(newStreak);
+    setBestStreak((prev) => Math.max(prev, newStreak));
+  }, [target, lastAttempt, round, params.initialVelocity, params.launchAngle, streak]);
+
+  /**
+   * Move on to a fresh target
+   */
+  const nextRound = useCallback(() => {
+    if (round >= settings.rounds) return;
+    setRound(round + 1);
+    setTarget(generateChallengeTarget(settings, params));
+  }, [round, settings, params]);
+
+  /**
+   * Leave challenge mode (attempts stay available until the next start)
+   */
+  const stop = useCallback(() => {
+    setTarget(null);
+    setRound(0);
+  }, []);
+
+  return {
+    settings,
+    isActive,
+    isFinished,
+    round,
+    target,
+    attempts,
+    lastAttempt,
+    score,
+    streak,
+    bestStreak,
+    start,
+    recordAttempt,
+    nextRound,
+    stop,
+  };
+}
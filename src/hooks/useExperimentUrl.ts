@@ -0,0 +1,54 @@
+/**
+ * useExperimentUrl.ts - Custom hook for keeping the experiment in the page's link
+ *
+ * This hook handles:
+ * - Rewriting the query string whenever the set-up changes, so a refresh keeps it
+ * - Whether the student's predictions go into the link (encoded, not readable)
+ * - The full link to share
+ *
+ * Reading a link happens once, when the lab opens (see experimentFromQuery).
+ */
+
+import { useEffect, useState } from 'react';
+import { experimentToQuery } from '../physics/experimentUrl';
+import { ExperimentConfig, Predictions } from '../physics/types';
+
+interface UseExperimentUrlOptions {
+  experiment: Omit<ExperimentConfig, 'predictions'>;
+  predictions: Predictions;
+  includePredictionsInitially?: boolean; // e.g. the lab was opened from a link with predictions
+}
+
+interface UseExperimentUrlReturn {
+  shareLink: string;
+  includePredictions: boolean;
+  setIncludePredictions: (include: boolean) => void;
+}
+
+/**
+ * Experiment link hook
+ */
+export function useExperimentUrl({
+  experiment,
+  predictions,
+  includePredictionsInitially = false,
+}: UseExperimentUrlOptions): UseExperimentUrlReturn {
+  const [includePredictions, setIncludePredictions] = useState(includePredictionsInitially);
+
+  const query = experimentToQuery({
+    ...experiment,
+    predictions: includePredictions ? predictions : null,
+  });
+
+  // Replace rather than push, so the back button still leaves the lab
+  useEffect(() => {
+    const url = `${window.location.pathname}?${query}${window.location.hash}`;
+    window.history.replaceState(window.history.state, '', url);
+  }, [query]);
+
+  return {
+    shareLink: `${window.location.origin}${window.location.pathname}?${query}`,
+    includePredictions,
+    setIncludePredictions,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * useRunHistory.ts - Custom hook for keeping previous runs
+ *
+ * This hook handles:
+ * - Saving each finished launch with its parameters and results
+ * - Pinning, hiding, recolouring and removing saved runs
+ * - Dropping the oldest unpinned run once the history is full
+ * - Replacing the whole history, e.g. from a saved session
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { MAX_SAVED_RUNS, RUN_COLORS } from '../physics/constants';
+import { CalculatedResults, LaunchParameters, SavedRun, TrajectoryData } from '../physics/types';
+
+interface UseRunHistoryReturn {
+  runs: SavedRun[];
+  visibleRuns: SavedRun[];
+  addRun: (params: LaunchParameters, results: CalculatedResults, trajectory: TrajectoryData) => number;
+  togglePinned: (id: number) => void;
+  toggleVisible: (id: number) => void;
+  setRunColor: (id: number, color: string) => void;
+  removeRun: (id: number) => void;
+  clearRuns: () => void; // Pinned runs are kept
+  loadRuns: (runs: SavedRun[]) => void;
+}
+
+/**
+ * Run history hook
+ */
+export function useRunHistory(): UseRunHistoryReturn {
+  const [runs, setRuns] = useState<SavedRun[]>([]);
+  const nextIdRef = useRef(1);
+
+  const visibleRuns = useMemo(() => runs.filter((run) => run.visible), [runs]);
+
+  /**
+   * Save a finished run and return its id
+   */
+  const addRun = useCallback((
+    params: LaunchParameters,
+    results: CalculatedResults,
+    trajectory: TrajectoryData
+  ): number => {
+    const id = nextIdRef.current++;
+    const run: SavedRun = {
+      id,
+      label: `Run ${id}: ${params.initialVelocity.toFixed(1)} m/s, ${params.launchAngle.toFixed(1)}°`,
+      params,
+      results,
+      trajectory,
+      color: RUN_COLORS[(id - 1) % RUN_COLORS.length],
+      visible: true,
+      pinned: false,
+    };
+
+    setRuns((prev) => {
+      const next = [...prev, run];
+      if (next.length > MAX_SAVED_RUNS) {
+        const oldestUnpinned = next.findIndex((saved) => !saved.pinned);
+        if (oldestUnpinned !== -1) next.splice(oldestUnpinned, 1);
+      }
+      return next;
+    });
+
+    return id;
+  }, []);
+
+  const updateRun = useCallback((id: number, update: (run: SavedRun) => Partial<SavedRun>) => {
+    setRuns((prev) => prev.map((run) => (run.id === id ? { ...run, ...update(run) } : run)));
+  }, []);
+
+  const togglePinned = useCallback((id: number) => {
+    updateRun(id, (run) => ({ pinned: !run.pinned }));
+  }, [updateRun]);
+
+  const toggleVisible = useCallback((id: number) => {
+    updateRun(id, (run) => ({ visible: !run.visible }));
+  }, [updateRun]);
+
+  const setRunColor = useCallback((id: number, color: string) => {
+    updateRun(id, () => ({ color }));
+  }, [updateRun]);
+
+  const removeRun = useCallback((id: number) => {
+    setRuns((prev) => prev.filter((run) => run.id !== id));
+  }, []);
+
+  const clearRuns = useCallback(() => {
+    setRuns((prev) => prev.filter((run) => run.pinned));
+  }, []);
+
+  const loadRuns = useCallback((saved: SavedRun[]) => {
+    setRuns(saved);
+    nextIdRef.current = Math.max(0, ...saved.map((run) => run.id)) + 1;
+  }, []);
+
+  return {
+    runs,
+    visibleRuns,
+    addRun,
+    togglePinned,
+    toggleVisible,
+    setRunColor,
+    removeRun,
+    clearRuns,
+    loadRuns,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * useSessions.ts - Custom hook for saved lab sessions
+ *
+ * This hook handles:
+ * - Loading the sessions saved in this browser
+ * - Saving the lab into the open session, or as a new one
+ * - Renaming, duplicating and deleting sessions
+ * - Importing a session file as a new session
+ *
+ * Every change is written to browser storage straight away. Writing can
+ * fail (e.g. storage is full); the error is thrown to the caller and the
+ * list is left as it was.
+ */
+
+import { useCallback, useState } from 'react';
+import { createSession, loadStoredSessions, sessionFromFile, storeSessions } from '../lib/sessions';
+import { LabSession, LabSessionContent } from '../physics/types';
+
+interface UseSessionsReturn {
+  sessions: LabSession[];               // Most recently saved first
+  activeSession: LabSession | null;     // The session being worked on, if any
+  saveSession: (content: LabSessionContent) => LabSession; // Into the open session (or a new one)
+  saveSessionAs: (name: string, content: LabSessionContent) => LabSession;
+  openSession: (id: string) => LabSession | null;
+  renameSession: (id: string, name: string) => void;
+  duplicateSession: (id: string) => void;
+  deleteSession: (id: string) => void;
+  importSession: (text: string) => LabSession;
+}
+
+const byUpdated = (a: LabSession, b: LabSession) => b.updatedAt.localeCompare(a.updatedAt);
+
+/**
+ * Session hook
+ */
+export function useSessions(): UseSessionsReturn {
+  const [sessions, setSessions] = useState<LabSession[]>(() => loadStoredSessions().sort(byUpdated));
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const activeSession = sessions.find((session) => session.id === activeId) ?? null;
+
+  /**
+   * Store the new list, then show it
+   */
+  const commit = useCallback((next: LabSession[]) => {
+    const sorted = [...next].sort(byUpdated);
+    storeSessions(sorted);
+    setSessions(sorted);
+  }, []);
+
+  const saveSessionAs = useCallback((name: string, content: LabSessionContent) => {
+    const session = createSession(name, content);
+    commit([session, ...sessions]);
+    setActiveId(session.id);
+    return session;
+  }, [sessions, commit]);
+
+  const saveSession = useCallback((content: LabSessionContent) => {
+    if (!activeSession) {
+      return saveSessionAs(`Session ${sessions.length + 1}`, content);
+    }
+    const updated: LabSession = { ...activeSession, ...content, updatedAt: new Date().toISOString() };
+    commit(sessions.map((session) => (session.id === updated.id ? updated : session)));
+    return updated;
+  }, [activeSession, sessions, saveSessionAs, commit]);
+
+  const openSession = useCallback((id: string) => {
+    const session = sessions.find((saved) => saved.id === id) ?? null;
+    if (session) setActiveId(id);
+    return session;
+  }, [sessions]);
+
+  const renameSession = useCallback((id: string, name: string) => {
+    commit(sessions.map((session) => (
+      session.id === id ? { ...session, name, updatedAt: new Date().toISOString() } : session
+    )));
+  }, [sessions, commit]);
+
+  const duplicateSession = useCallback((id: string) => {
+    const original = sessions.find((session) => session.id === id);
+    if (!original) return;
+    const { experiment, runs, notes } = original;
+    commit([createSession(`${original.name} (copy)`, { experiment, runs, notes }), ...sessions]);
+  }, [sessions, commit]);
+
+  const deleteSession = useCallback((id: string) => {
+    commit(sessions.filter((session) => session.id !== id));
+    if (id === activeId) setActiveId(null);
+  }, [sessions, activeId, commit]);
+
+  const importSession = useCallback((text: string) => {
+    const session = sessionFromFile(text);
+    commit([session, ...sessions]);
+    return session;
+  }, [sessions, commit]);
+
+  return {
+    sessions,
+    activeSession,
+    saveSession,
+    saveSessionAs,
+    openSession,
+    renameSession,
+    duplicateSession,
+    deleteSession,
+    importSession,
+  };
+}
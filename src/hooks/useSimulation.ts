@@ -2,28 +2,45 @@
  * useSimulation.ts - Custom hook for managing the projectile simulation
  * 
  * This hook handles:
- * - Animation loop (updating position over time)
+ * - Animation loop (updating position over real elapsed time)
+ * - Playback speed (slow motion and fast forward)
+ * - Seeking to any moment and stepping frame by frame
+ * - Companion projectiles launched with the main one or a little later
+ * - Switching to a numerical solution (drag or a chosen integrator)
  * - Trajectory data collection
  * - Simulation state (playing, paused, reset)
  */
 
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { calculateAllResults } from '../physics/equations';
 import {
-  calculatePositionAtTime,
-  calculateVelocityAtTime,
-  calculateAllResults,
-} from '../physics/equations';
-import { TIME_STEP } from '../physics/constants';
+  simulateTrajectory,
+  calculateResultsFromTrajectory,
+  interpolateTrajectory,
+  createReferenceMotion,
+  sampleMotion,
+} from '../physics/integrators';
+import {
+  DEFAULT_INTEGRATOR,
+  DEFAULT_PLAYBACK_RATE,
+  MAX_FRAME_TIME,
+  TIME_STEP,
+} from '../physics/constants';
 import {
   LaunchParameters,
   ProjectileState,
-  Vector2D,
+  MotionSample,
   CalculatedResults,
   TrajectoryData,
+  IntegratorSettings,
+  CompanionLaunch,
+  CompanionProjectile,
 } from '../physics/types';
 
 interface UseSimulationProps {
   params: LaunchParameters;
+  integrator?: IntegratorSettings;
+  companions?: CompanionLaunch[]; // Other projectiles, e.g. the complementary angle
   onUpdate?: (state: ProjectileState) => void;
   onComplete?: () => void;
 }
@@ -31,43 +48,97 @@ interface UseSimulationProps {
 interface UseSimulationReturn {
   state: ProjectileState;
   results: CalculatedResults;
+  idealResults: CalculatedResults; // Same launch without air resistance
   trajectory: TrajectoryData;
+  companionProjectiles: CompanionProjectile[];
+  duration: number; // Until the last projectile lands (s)
   isPlaying: boolean;
   isPaused: boolean;
+  playbackRate: number; // Simulated seconds per real second
+  setPlaybackRate: (rate: number) => void;
   play: () => void;
   pause: () => void;
   reset: () => void;
+  seek: (time: number) => void;
+  stepForward: () => void;
+  stepBackward: () => void;
   progress: number; // 0 to 1, how far through the flight
+  positionError: number; // Distance from the reference solution right now (m)
 }
 
 /**
  * Initial state when simulation hasn't started yet
  */
-const createInitialState = (): ProjectileState => ({
-  position: { x: 0, y: 0 },
+const createInitialState = (launchHeight: number = 0): ProjectileState => ({
+  position: { x: 0, y: launchHeight },
   velocity: { x: 0, y: 0 },
   time: 0,
   isActive: false,
 });
 
+const EMPTY_TRAJECTORY: TrajectoryData = { positions: [], velocities: [], times: [] };
+
+const NO_COMPANIONS: CompanionLaunch[] = [];
+
 /**
  * Main simulation hook
  */
 export function useSimulation({
   params,
+  integrator = DEFAULT_INTEGRATOR,
+  companions = NO_COMPANIONS,
   onUpdate,
   onComplete,
 }: UseSimulationProps): UseSimulationReturn {
-  // Calculate all results from current parameters
-  const results = calculateAllResults(params);
+  // Ideal (no air resistance) results straight from the equations
+  const idealResults = useMemo(() => calculateAllResults(params), [params]);
+
+  // Most accurate solution: exact equations, or a fine RK4 solve when drag is on
+  const reference = useMemo(() => createReferenceMotion(params), [params]);
+
+  // A chosen numerical method solves the whole flight up front with its own Δt
+  const { method, timeStep } = integrator;
+  const numericalTrajectory = useMemo(
+    () => (method !== 'analytic' ? simulateTrajectory(params, method, timeStep) : null),
+    [params, method, timeStep]
+  );
+
+  // Results actually shown and animated
+  const results = useMemo(
+    () => (numericalTrajectory
+      ? calculateResultsFromTrajectory(params, numericalTrajectory)
+      : reference.results),
+    [params, numericalTrajectory, reference]
+  );
+
+  // Companions always follow the most accurate solution
+  const companionMotions = useMemo(
+    () => companions.map((companion) => createReferenceMotion(companion.params)),
+    [companions]
+  );
+
+  // The run lasts until every projectile has landed
+  const duration = useMemo(
+    () => Math.max(
+      results.timeOfFlight,
+      ...companionMotions.map(
+        (motion, i) => (companions[i].startDelay ?? 0) + motion.results.timeOfFlight
+      )
+    ),
+    [results, companions, companionMotions]
+  );
 
   // Current state of the projectile
-  const [state, setState] = useState<ProjectileState>(createInitialState());
+  const [state, setState] = useState<ProjectileState>(createInitialState(params.launchHeight));
 
   // Simulation control flags
   const [isPlaying, setIsPlaying] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
 
+  // Playback speed (a ref too, so a running animation picks up changes)
+  const [playbackRate, setPlaybackRateState] = useState(DEFAULT_PLAYBACK_RATE);
+  const playbackRateRef = useRef(DEFAULT_PLAYBACK_RATE);
+
   // Trajectory history for drawing the path
   const [trajectory, setTrajectory] = useState<TrajectoryData>({
     positions: [],
@@ -80,79 +151,87 @@ export function useSimulation({
   const lastTimeRef = useRef<number>(0);
   const simulationTimeRef = useRef<number>(0);
 
+  // Whether onComplete has run for this launch (scrubbing to the end again doesn't repeat it)
+  const completedRef = useRef(false);
+
+  // Keep the waiting projectile on the launch platform while the height is adjusted
+  useEffect(() => {
+    if (simulationTimeRef.current === 0) {
+      setState(createInitialState(params.launchHeight));
+    }
+  }, [params.launchHeight]);
+
   /**
-   * Update the simulation by one time step
+   * Position and velocity at a given time, from the reference or the chosen numerical method
    */
-  const updateSimulation = useCallback(() => {
-    const currentTime = simulationTimeRef.current;
-
-    // Check if projectile has landed (y < 0 after going up)
-    if (currentTime > results.timeOfFlight) {
-      // Simulation complete - set final position
-      const finalState: ProjectileState = {
-        position: { x: results.horizontalRange, y: 0 },
-        velocity: {
-          x: results.initialVelocityX,
-          y: -results.initialVelocityY, // Same magnitude, opposite direction
-        },
-        time: results.timeOfFlight,
-        isActive: false,
-      };
+  const getMotionAtTime = useCallback(
+    (time: number): MotionSample => (numericalTrajectory
+      ? interpolateTrajectory(numericalTrajectory, time)
+      : reference.getMotionAtTime(time)),
+    [numericalTrajectory, reference]
+  );
 
-      setState(finalState);
-      setIsPlaying(false);
+  /**
+   * Add a sample to the drawn path (skipped once the main projectile has landed)
+   */
+  const appendToTrajectory = useCallback((motion: MotionSample, time: number) => {
+    setTrajectory((prev) => (
+      prev.times.length > 0 && time <= prev.times[prev.times.length - 1]
+        ? prev
+        : {
+          positions: [...prev.positions, motion.position],
+          velocities: [...prev.velocities, motion.velocity],
+          times: [...prev.times, time],
+        }
+    ));
+  }, []);
 
-      // Add final point to trajectory
-      setTrajectory((prev) => ({
-        positions: [...prev.positions, finalState.position],
-        velocities: [...prev.velocities, finalState.velocity],
-        times: [...prev.times, finalState.time],
-      }));
+  /**
+   * Report the end of the flight, once per launch
+   */
+  const complete = useCallback(() => {
+    if (completedRef.current) return;
+    completedRef.current = true;
+    onComplete?.();
+  }, [onComplete]);
 
-      onComplete?.();
-      return;
-    }
+  /**
+   * Update the simulation for one animation frame
+   */
+  const updateSimulation = useCallback((timestamp: number) => {
+    // Advance simulated time by the real time since the last frame, scaled by the
+    // playback rate. Long gaps (e.g. a background tab) are capped so it doesn't jump.
+    const elapsed = Math.min(Math.max((timestamp - lastTimeRef.current) / 1000, 0), MAX_FRAME_TIME);
+    lastTimeRef.current = timestamp;
+    simulationTimeRef.current += elapsed * playbackRateRef.current;
+
+    // Finished once every projectile has landed; until then the main
+    // projectile waits on the ground if it came down first
+    const isFinished = simulationTimeRef.current > duration;
+    const currentTime = Math.min(simulationTimeRef.current, duration);
+    const mainTime = Math.min(currentTime, results.timeOfFlight);
+    const motion = getMotionAtTime(mainTime);
 
-    // Calculate current position and velocity
-    const position = calculatePositionAtTime(
-      results.initialVelocityX,
-      results.initialVelocityY,
-      params.gravity,
-      currentTime
-    );
-
-    const velocity = calculateVelocityAtTime(
-      results.initialVelocityX,
-      results.initialVelocityY,
-      params.gravity,
-      currentTime
-    );
-
-    // Create new state
     const newState: ProjectileState = {
-      position,
-      velocity,
+      ...motion,
       time: currentTime,
-      isActive: true,
+      isActive: !isFinished,
     };
 
     setState(newState);
+    appendToTrajectory(motion, mainTime);
 
-    // Add to trajectory
-    setTrajectory((prev) => ({
-      positions: [...prev.positions, position],
-      velocities: [...prev.velocities, velocity],
-      times: [...prev.times, currentTime],
-    }));
+    if (isFinished) {
+      setIsPlaying(false);
+      complete();
+      return;
+    }
 
     onUpdate?.(newState);
 
-    // Advance time
-    simulationTimeRef.current += TIME_STEP;
-
     // Continue animation
     animationRef.current = requestAnimationFrame(updateSimulation);
-  }, [params, results, onUpdate, onComplete]);
+  }, [results, duration, getMotionAtTime, appendToTrajectory, onUpdate, complete]);
 
   /**
    * Start or resume the simulation
@@ -165,8 +244,9 @@ export function useSimulation({
 
     // If starting fresh, reset trajectory
     if (simulationTimeRef.current === 0) {
+      completedRef.current = false;
       setTrajectory({
-        positions: [{ x: 0, y: 0 }],
+        positions: [{ x: 0, y: params.launchHeight }],
         velocities: [{ x: results.initialVelocityX, y: results.initialVelocityY }],
         times: [0],
       });
@@ -174,7 +254,15 @@ export function useSimulation({
 
     lastTimeRef.current = performance.now();
     animationRef.current = requestAnimationFrame(updateSimulation);
-  }, [isPlaying, results, updateSimulation]);
+  }, [isPlaying, params, results, updateSimulation]);
+
+  /**
+   * Change how fast simulated time runs compared to real time
+   */
+  const setPlaybackRate = useCallback((rate: number) => {
+    playbackRateRef.current = rate;
+    setPlaybackRateState(rate);
+  }, []);
 
   /**
    * Pause the simulation
@@ -199,27 +287,112 @@ export function useSimulation({
 
     simulationTimeRef.current = 0;
     lastTimeRef.current = 0;
+    completedRef.current = false;
 
-    setState(createInitialState());
+    setState(createInitialState(params.launchHeight));
     setTrajectory({ positions: [], velocities: [], times: [] });
     setIsPlaying(false);
     setIsPaused(false);
-  }, []);
+  }, [params.launchHeight]);
+
+  /**
+   * Jump straight to a moment in the flight (pauses the animation).
+   * The path so far is recomputed rather than replayed.
+   */
+  const seek = useCallback((time: number) => {
+    if (animationRef.current) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+
+    const clampedTime = Math.max(0, Math.min(time, duration));
+    const isFinished = clampedTime >= duration;
+    const mainTime = Math.min(clampedTime, results.timeOfFlight);
+    simulationTimeRef.current = clampedTime;
+
+    setState({
+      ...getMotionAtTime(mainTime),
+      time: clampedTime,
+      isActive: false,
+    });
+    setTrajectory(sampleMotion(getMotionAtTime, mainTime, TIME_STEP));
+    setIsPlaying(false);
+    setIsPaused(!isFinished);
+
+    if (isFinished) complete();
+  }, [results, duration, getMotionAtTime, complete]);
+
+  /**
+   * Move one animation frame forward or back in simulated time
+   */
+  const stepForward = useCallback(() => {
+    seek(simulationTimeRef.current + TIME_STEP);
+  }, [seek]);
+
+  const stepBackward = useCallback(() => {
+    seek(simulationTimeRef.current - TIME_STEP);
+  }, [seek]);
 
   // Calculate progress (0 to 1)
-  const progress = results.timeOfFlight > 0
-    ? Math.min(state.time / results.timeOfFlight, 1)
+  const progress = duration > 0
+    ? Math.min(state.time / duration, 1)
     : 0;
 
+  // Companions at the current moment: waiting on the launch point until
+  // their start delay has passed, then flying until they land
+  const hasStarted = trajectory.times.length > 0;
+  const companionProjectiles = useMemo(
+    () => companions.map((companion, i): CompanionProjectile => {
+      const motion = companionMotions[i];
+      const startDelay = companion.startDelay ?? 0;
+      const flightTime = Math.max(0, Math.min(state.time - startDelay, motion.results.timeOfFlight));
+      const isLaunched = hasStarted && state.time >= startDelay;
+
+      // Path so far, with times measured from the main launch
+      const flown = sampleMotion(motion.getMotionAtTime, flightTime, TIME_STEP);
+      const trajectory: TrajectoryData = isLaunched
+        ? { ...flown, times: flown.times.map((time) => time + startDelay) }
+        : EMPTY_TRAJECTORY;
+
+      return {
+        ...companion,
+        state: {
+          ...motion.getMotionAtTime(flightTime),
+          time: state.time,
+          isActive: isLaunched && flightTime < motion.results.timeOfFlight,
+        },
+        trajectory,
+        results: motion.results,
+      };
+    }),
+    [companions, companionMotions, state.time, hasStarted]
+  );
+
+  // How far the numerical method has drifted from the reference so far
+  const positionError = useMemo(() => {
+    if (!numericalTrajectory || state.time === 0) return 0;
+    const expected = reference.getMotionAtTime(Math.min(state.time, results.timeOfFlight)).position;
+    return Math.hypot(state.position.x - expected.x, state.position.y - expected.y);
+  }, [numericalTrajectory, reference, results, state]);
+
   return {
     state,
     results,
+    idealResults,
     trajectory,
+    companionProjectiles,
+    duration,
     isPlaying,
     isPaused,
+    playbackRate,
+    setPlaybackRate,
     play,
     pause,
     reset,
+    seek,
+    stepForward,
+    stepBackward,
     progress,
+    positionError,
   };
 }
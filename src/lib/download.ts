@@ -0,0 +1,38 @@
+/**
+ * File name from a title, e.g. "Velocity vs Time" -> velocity-vs-time.png
+ */
+export function getFileName(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'download'}.${extension}`;
+}
+
+/**
+ * Save text or binary content as a file in the browser's downloads
+ */
+export function downloadFile(fileName: string, content: BlobPart | Blob, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before freeing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Open an HTML page in a new tab and bring up the print dialog once its
+ * images are ready. Throws if the browser blocks the new tab.
+ */
+export async function printHtml(html: string): Promise<void> {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error('The browser blocked the print view. Allow pop-ups for this page and try again.');
+  printWindow.document.write(html);
+  printWindow.document.close();
+  const images = Array.from(printWindow.document.images);
+  await Promise.all(images.map((image) => image.decode().catch(() => undefined)));
+  printWindow.focus();
+  printWindow.print();
+}
@@ -0,0 +1,63 @@
+/**
+ * drawingContext.ts - The parts of the canvas API the lab's drawings use
+ *
+ * The simulation and graph renderers draw through this interface, so the
+ * same code can paint a canvas or be recorded as SVG (see SvgContext).
+ * A real CanvasRenderingContext2D already fits it. Anything added here
+ * has to be added to SvgContext too, or exporting won't compile.
+ */
+
+export type DrawingStyle = string | CanvasGradient | CanvasPattern;
+
+export interface DrawingContext {
+  // Style
+  fillStyle: DrawingStyle;
+  strokeStyle: DrawingStyle;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  globalAlpha: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  setLineDash(segments: number[]): void;
+
+  // State and transforms
+  save(): void;
+  restore(): void;
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+
+  // Paths
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  closePath(): void;
+  rect(x: number, y: number, w: number, h: number): void;
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise?: boolean): void;
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean
+  ): void;
+  arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void;
+  fill(): void;
+  stroke(): void;
+  clip(): void;
+
+  // Rectangles and text
+  fillRect(x: number, y: number, w: number, h: number): void;
+  strokeRect(x: number, y: number, w: number, h: number): void;
+  clearRect(x: number, y: number, w: number, h: number): void;
+  fillText(text: string, x: number, y: number): void;
+  measureText(text: string): TextMetrics;
+
+  // Gradients
+  createLinearGradient(x1: number, y1: number, x2: number, y2: number): CanvasGradient;
+  createRadialGradient(x1: number, y1: number, r1: number, x2: number, y2: number, r2: number): CanvasGradient;
+}
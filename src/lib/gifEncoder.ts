@@ -0,0 +1,214 @@
+/**
+ * gifEncoder.ts - Animated GIF writer
+ *
+ * Frames are matched to a fixed 6×7×6 colour cube (plenty for the lab's
+ * flat pastel drawings) and LZW-compressed as the GIF89a format
+ * describes, so animations can be built in the browser without a
+ * server or extra library.
+ */
+
+// Levels per channel in the colour cube (green gets one more: the eye is most sensitive to it)
+const RED_LEVELS = 6;
+const GREEN_LEVELS = 7;
+const BLUE_LEVELS = 6;
+
+const MIN_CODE_SIZE = 8; // 256-entry colour table
+const MAX_CODE = 4096;   // LZW codes are at most 12 bits
+
+/**
+ * Bytes written into a buffer that grows as needed
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const bigger = new Uint8Array(this.buffer.length * 2);
+      bigger.set(this.buffer);
+      this.buffer = bigger;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  // Little-endian 16-bit number
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+const scaleLevel = (level: number, levels: number) => Math.round((level * 255) / (levels - 1));
+
+/**
+ * The colour cube as 256 RGB triples (unused entries are black)
+ */
+function buildPalette(): Uint8Array {
+  const palette = new Uint8Array(256 * 3);
+  let index = 0;
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        palette[index++] = scaleLevel(r, RED_LEVELS);
+        palette[index++] = scaleLevel(g, GREEN_LEVELS);
+        palette[index++] = scaleLevel(b, BLUE_LEVELS);
+      }
+    }
+  }
+  return palette;
+}
+
+/**
+ * Palette index of each RGBA pixel (nearest level per channel, on white
+ * where transparent)
+ */
+function quantizePixels(rgba: Uint8ClampedArray | Uint8Array): Uint8Array {
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < indices.length; i++) {
+    const alpha = rgba[i * 4 + 3] / 255;
+    const channel = (offset: number, levels: number) => {
+      const value = rgba[i * 4 + offset] * alpha + 255 * (1 - alpha);
+      return Math.round((value * (levels - 1)) / 255);
+    };
+    const r = channel(0, RED_LEVELS);
+    const g = channel(1, GREEN_LEVELS);
+    const b = channel(2, BLUE_LEVELS);
+    indices[i] = (r * GREEN_LEVELS + g) * BLUE_LEVELS + b;
+  }
+  return indices;
+}
+
+/**
+ * LZW-compress palette indices into GIF image data sub-blocks
+ */
+function compressIndices(indices: Uint8Array, writer: ByteWriter) {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  const dictionary = new Map<number, number>();
+
+  // Codes are packed least significant bit first, then cut into blocks of up to 255 bytes
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const flushBlock = () => {
+    writer.byte(block.length);
+    writer.bytes(block);
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) flushBlock();
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  writer.byte(MIN_CODE_SIZE);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const pixel = indices[i];
+    const key = prefix * 256 + pixel;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // Table full: start a new one
+      emit(clearCode);
+      dictionary.clear();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+    prefix = pixel;
+  }
+  emit(prefix);
+  // The decoder adds a code for that last prefix, which may widen the end code too
+  if (nextCode >= 1 << codeSize && nextCode < MAX_CODE) codeSize++;
+  emit(endCode);
+
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+    if (block.length === 255) flushBlock();
+  }
+  if (block.length > 0) flushBlock();
+  writer.byte(0); // End of image data
+}
+
+/**
+ * Animated GIF built one frame at a time, looping forever
+ */
+export class GifEncoder {
+  private writer = new ByteWriter();
+
+  constructor(private readonly width: number, private readonly height: number) {
+    const writer = this.writer;
+    writer.text('GIF89a');
+    writer.word(width);
+    writer.word(height);
+    writer.byte(0xf7); // Global colour table of 2^(7+1) entries
+    writer.byte(0);    // Background colour index
+    writer.byte(0);    // Square pixels
+    writer.bytes(buildPalette());
+
+    // Loop forever (NETSCAPE2.0 application extension)
+    writer.bytes([0x21, 0xff, 11]);
+    writer.text('NETSCAPE2.0');
+    writer.bytes([3, 1]);
+    writer.word(0);
+    writer.byte(0);
+  }
+
+  /**
+   * Add a frame of RGBA pixels (width × height), shown for `delay` milliseconds
+   */
+  addFrame(rgba: Uint8ClampedArray | Uint8Array, delay: number) {
+    const writer = this.writer;
+
+    // Graphic control extension: how long to show the frame (hundredths of a second)
+    writer.bytes([0x21, 0xf9, 4, 0]);
+    writer.word(Math.max(2, Math.round(delay / 10)));
+    writer.bytes([0, 0]);
+
+    // Image descriptor covering the whole canvas
+    writer.byte(0x2c);
+    writer.word(0);
+    writer.word(0);
+    writer.word(this.width);
+    writer.word(this.height);
+    writer.byte(0);
+
+    compressIndices(quantizePixels(rgba), writer);
+  }
+
+  /**
+   * The finished file
+   */
+  finish(): Uint8Array {
+    this.writer.byte(0x3b);
+    return this.writer.toBytes();
+  }
+}
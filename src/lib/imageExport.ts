@@ -0,0 +1,52 @@
+/**
+ * imageExport.ts - Canvas drawings saved as PNG or SVG
+ *
+ * Components hand over the same function they draw on screen with, so
+ * exported images match what students see, only sharper.
+ */
+
+import { DrawingContext } from './drawingContext';
+import { SvgContext } from './svgContext';
+import { ReportSnapshot } from '../physics/types';
+
+/**
+ * Draws a scene `width` × `height` CSS pixels in size onto `ctx`, whose
+ * backing store has `pixelRatio` device pixels per CSS pixel
+ */
+export type CanvasDrawing = (ctx: DrawingContext, pixelRatio: number) => void;
+
+/**
+ * Redraw onto an off-screen canvas `scale` times the size and encode it as PNG
+ */
+export function renderToPng(width: number, height: number, scale: number, draw: CanvasDrawing): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas drawing is not supported'));
+
+  draw(ctx, scale);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG'))), 'image/png');
+  });
+}
+
+/**
+ * Redraw through an SVG recorder and return the SVG document
+ */
+export function renderToSvg(width: number, height: number, draw: CanvasDrawing): string {
+  const context = new SvgContext(width, height);
+  draw(context, 1);
+  return context.toSvg();
+}
+
+/**
+ * Pictures of the canvases inside `root` as they are on screen, titled
+ * by each canvas's accessible label
+ */
+export function captureCanvases(root: ParentNode): ReportSnapshot[] {
+  return Array.from(root.querySelectorAll('canvas')).map((canvas, i) => ({
+    title: canvas.getAttribute('aria-label') ?? `Figure ${i + 1}`,
+    dataUrl: canvas.toDataURL('image/png'),
+  }));
+}
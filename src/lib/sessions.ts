@@ -0,0 +1,182 @@
+/**
+ * sessions.ts - Saved lab sessions in browser storage and as files
+ *
+ * Sessions are kept as a list under one storage entry. A session can
+ * also be written to a JSON file (to hand in, or to move to another
+ * computer) and read back. Anything read is checked first, so a damaged
+ * file or storage entry can't break the lab.
+ */
+
+import {
+  DEFAULT_EXPERIMENT,
+  RUN_COLORS,
+  SESSION_FILE_FORMAT,
+  SESSION_FILE_VERSION,
+  SESSION_STORAGE_KEY,
+} from '../physics/constants';
+import { isObject, parseExperiment, parseLaunchParameters, readColor } from '../physics/experimentConfig';
+import {
+  CalculatedResults,
+  LabSession,
+  LabSessionContent,
+  SavedRun,
+  TrajectoryData,
+  Vector2D,
+} from '../physics/types';
+
+interface SessionFile {
+  format: typeof SESSION_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: LabSession;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const RESULT_NAMES: (keyof CalculatedResults)[] = [
+  'initialVelocityX',
+  'initialVelocityY',
+  'finalVelocityY',
+  'timeToMaxHeight',
+  'timeOfFlight',
+  'maxHeight',
+  'horizontalRange',
+];
+
+function isLaunchParameters(value: unknown): boolean {
+  return isObject(value)
+    && isNumber(value.initialVelocity)
+    && isNumber(value.launchAngle)
+    && isNumber(value.gravity)
+    && isNumber(value.launchHeight)
+    && isNumber(value.landingHeight);
+}
+
+function isResults(value: unknown): value is CalculatedResults {
+  return isObject(value) && RESULT_NAMES.every((name) => isNumber(value[name]));
+}
+
+const isVector = (value: unknown): value is Vector2D => isObject(value) && isNumber(value.x) && isNumber(value.y);
+
+function isTrajectory(value: unknown): value is TrajectoryData {
+  return isObject(value)
+    && Array.isArray(value.times)
+    && Array.isArray(value.positions)
+    && Array.isArray(value.velocities)
+    && value.positions.length === value.times.length
+    && value.velocities.length === value.times.length
+    && value.times.every(isNumber)
+    && value.positions.every(isVector)
+    && value.velocities.every(isVector);
+}
+
+/**
+ * A finished run read back, or null if it is damaged. Its launch values
+ * are checked like the experiment's, so the graphs can redraw it.
+ */
+function parseRun(value: unknown): SavedRun | null {
+  if (!isObject(value) || !isNumber(value.id) || !isLaunchParameters(value.params)) return null;
+  if (!isResults(value.results) || !isTrajectory(value.trajectory)) return null;
+  return {
+    id: value.id,
+    label: typeof value.label === 'string' ? value.label : `Run ${value.id}`,
+    params: parseLaunchParameters(value.params, DEFAULT_EXPERIMENT.params),
+    results: value.results,
+    trajectory: value.trajectory,
+    color: readColor(value.color) ?? RUN_COLORS[0],
+    visible: typeof value.visible === 'boolean' ? value.visible : true,
+    pinned: typeof value.pinned === 'boolean' ? value.pinned : false,
+  };
+}
+
+/**
+ * A session read from storage or a file, with defaults for anything
+ * missing; null if it isn't a session at all
+ */
+function parseSession(value: unknown): LabSession | null {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+  if (!isObject(value.experiment) || !isLaunchParameters(value.experiment.params)) return null;
+  if (!Array.isArray(value.runs)) return null;
+  const runs = value.runs.map(parseRun).filter((run): run is SavedRun => run !== null);
+  if (runs.length !== value.runs.length) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: value.id,
+    name: value.name,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : now,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : now,
+    experiment: parseExperiment(value.experiment, DEFAULT_EXPERIMENT),
+    runs,
+    notes: typeof value.notes === 'string' ? value.notes : '',
+  };
+}
+
+/**
+ * A new session holding `content`
+ */
+export function createSession(name: string, content: LabSessionContent): LabSession {
+  const now = new Date().toISOString();
+  return { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, ...content };
+}
+
+/**
+ * Sessions saved in this browser (none if storage is empty, unavailable or damaged)
+ */
+export function loadStoredSessions(): LabSession[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.map(parseSession).filter((session): session is LabSession => session !== null);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the session list in this browser. Throws if storage is full or blocked.
+ */
+export function storeSessions(sessions: LabSession[]): void {
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(sessions));
+  } catch {
+    throw new Error('The browser would not store the session. It may be full: try deleting old sessions or runs.');
+  }
+}
+
+/**
+ * A session as the contents of a JSON file
+ */
+export function sessionToFile(session: LabSession): string {
+  const file: SessionFile = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * The session in a JSON file, as a new session of its own.
+ * Throws with a message for the student if the file can't be used.
+ */
+export function sessionFromFile(text: string): LabSession {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isObject(file) || file.format !== SESSION_FILE_FORMAT) {
+    throw new Error('The file is not a Physics LaunchPad session.');
+  }
+  if (!isNumber(file.version) || file.version > SESSION_FILE_VERSION) {
+    throw new Error('The session was saved by a newer version of the lab.');
+  }
+
+  const session = parseSession(file.session);
+  if (!session) throw new Error('The session in the file is incomplete or damaged.');
+  return { ...session, id: crypto.randomUUID() };
+}
@@ -0,0 +1,354 @@
+/**
+ * svgContext.ts - A stand-in for CanvasRenderingContext2D that records drawing as SVG,
+ * so the same drawing code can produce a vector image.
+ *
+ * It covers the parts of the canvas API the lab's canvases use: paths
+ * (lines, arcs, rectangles), fills and strokes with dashes and
+ * gradients, text, transforms, clipping and save/restore.
+ */
+
+import { DrawingContext, DrawingStyle } from './drawingContext';
+
+type Matrix = [number, number, number, number, number, number];
+
+interface DrawState {
+  transform: Matrix;
+  clipId: string | null;
+  fillStyle: DrawingStyle;
+  strokeStyle: DrawingStyle;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  lineDash: number[];
+  globalAlpha: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+// Text and attribute values (styles come from the drawing, and some colours from imported data)
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+class SvgGradient {
+  private stops: { offset: number; color: string }[] = [];
+
+  constructor(
+    readonly id: string,
+    private readonly kind: 'linear' | 'radial',
+    private readonly coords: number[]
+  ) {}
+
+  addColorStop(offset: number, color: string) {
+    this.stops.push({ offset, color });
+  }
+
+  toSvg(): string {
+    const stops = this.stops
+      .map(({ offset, color }) => `<stop offset="${offset}" stop-color="${escapeXml(color)}"/>`)
+      .join('');
+    const common = `id="${this.id}" gradientUnits="userSpaceOnUse"`;
+    if (this.kind === 'linear') {
+      const [x1, y1, x2, y2] = this.coords;
+      return `<linearGradient ${common} x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">${stops}</linearGradient>`;
+    }
+    const [fx, fy, , cx, cy, r] = this.coords;
+    return `<radialGradient ${common} fx="${fx}" fy="${fy}" cx="${cx}" cy="${cy}" r="${r}">${stops}</radialGradient>`;
+  }
+}
+
+export class SvgContext implements DrawingContext {
+  private elements: string[] = [];
+  private defs: string[] = [];
+  private gradientIds = new Set<string>();
+  private path: string[] = [];
+  private current: { x: number; y: number } | null = null;
+  private stack: DrawState[] = [];
+  private nextId = 0;
+  private measurer: CanvasRenderingContext2D | null;
+  private state: DrawState = {
+    transform: IDENTITY,
+    clipId: null,
+    fillStyle: '#000',
+    strokeStyle: '#000',
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    lineDash: [],
+    globalAlpha: 1,
+    font: '10px sans-serif',
+    textAlign: 'start',
+  };
+
+  constructor(private readonly width: number, private readonly height: number) {
+    this.measurer = document.createElement('canvas').getContext('2d');
+  }
+
+  // Style properties, read and written like a canvas context's
+
+  get fillStyle() { return this.state.fillStyle; }
+  set fillStyle(value: DrawingStyle) { this.state.fillStyle = value; }
+  get strokeStyle() { return this.state.strokeStyle; }
+  set strokeStyle(value: DrawingStyle) { this.state.strokeStyle = value; }
+  get lineWidth() { return this.state.lineWidth; }
+  set lineWidth(value: number) { this.state.lineWidth = value; }
+  get lineCap() { return this.state.lineCap; }
+  set lineCap(value: CanvasLineCap) { this.state.lineCap = value; }
+  get lineJoin() { return this.state.lineJoin; }
+  set lineJoin(value: CanvasLineJoin) { this.state.lineJoin = value; }
+  get globalAlpha() { return this.state.globalAlpha; }
+  set globalAlpha(value: number) { this.state.globalAlpha = value; }
+  get font() { return this.state.font; }
+  set font(value: string) { this.state.font = value; }
+  get textAlign() { return this.state.textAlign; }
+  set textAlign(value: CanvasTextAlign) { this.state.textAlign = value; }
+
+  setLineDash(segments: number[]) { this.state.lineDash = [...segments]; }
+
+  // State and transforms
+
+  save() {
+    this.stack.push({ ...this.state, lineDash: [...this.state.lineDash] });
+  }
+
+  restore() {
+    const previous = this.stack.pop();
+    if (previous) this.state = previous;
+  }
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.state.transform = [a, b, c, d, e, f];
+  }
+
+  translate(x: number, y: number) {
+    this.state.transform = multiply(this.state.transform, [1, 0, 0, 1, x, y]);
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.state.transform = multiply(this.state.transform, [cos, sin, -sin, cos, 0, 0]);
+  }
+
+  // Paths
+
+  beginPath() {
+    this.path = [];
+    this.current = null;
+  }
+
+  moveTo(x: number, y: number) {
+    this.path.push(`M${round(x)} ${round(y)}`);
+    this.current = { x, y };
+  }
+
+  lineTo(x: number, y: number) {
+    this.path.push(`${this.current ? 'L' : 'M'}${round(x)} ${round(y)}`);
+    this.current = { x, y };
+  }
+
+  closePath() {
+    this.path.push('Z');
+  }
+
+  rect(x: number, y: number, w: number, h: number) {
+    this.moveTo(x, y);
+    this.path.push(`h${round(w)} v${round(h)} h${round(-w)} Z`);
+    this.current = { x, y };
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+  }
+
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false
+  ) {
+    const pointAt = (angle: number) => {
+      const px = radiusX * Math.cos(angle);
+      const py = radiusY * Math.sin(angle);
+      return {
+        x: x + px * Math.cos(rotation) - py * Math.sin(rotation),
+        y: y + px * Math.sin(rotation) + py * Math.cos(rotation),
+      };
+    };
+    let sweep = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+    const isFull = sweep >= Math.PI * 2;
+    sweep = ((sweep % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+
+    const start = pointAt(startAngle);
+    this.lineTo(start.x, start.y);
+    const arcTo = (angle: number, large: boolean) => {
+      const end = pointAt(angle);
+      const rotationDeg = round((rotation * 180) / Math.PI);
+      this.path.push(
+        `A${round(radiusX)} ${round(radiusY)} ${rotationDeg} ${large ? 1 : 0} ${counterclockwise ? 0 : 1} ${round(end.x)} ${round(end.y)}`
+      );
+      this.current = end;
+    };
+
+    if (isFull) {
+      // SVG can't draw a whole ellipse in one arc; use two halves
+      const direction = counterclockwise ? -1 : 1;
+      arcTo(startAngle + direction * Math.PI, false);
+      arcTo(startAngle + direction * Math.PI * 2, false);
+    } else {
+      arcTo(endAngle, sweep > Math.PI);
+    }
+  }
+
+  arcTo(x1: number, y1: number, x2: number, y2: number, radius: number) {
+    const from = this.current ?? { x: x1, y: y1 };
+    const v1 = { x: from.x - x1, y: from.y - y1 };
+    const v2 = { x: x2 - x1, y: y2 - y1 };
+    const length1 = Math.hypot(v1.x, v1.y);
+    const length2 = Math.hypot(v2.x, v2.y);
+    const cross = v1.x * v2.y - v1.y * v2.x;
+    if (length1 === 0 || length2 === 0 || cross === 0 || radius === 0) {
+      this.lineTo(x1, y1);
+      return;
+    }
+
+    // Where the circle touches the two lines
+    const angle = Math.acos((v1.x * v2.x + v1.y * v2.y) / (length1 * length2));
+    const distance = radius / Math.tan(angle / 2);
+    const start = { x: x1 + (v1.x / length1) * distance, y: y1 + (v1.y / length1) * distance };
+    const end = { x: x1 + (v2.x / length2) * distance, y: y1 + (v2.y / length2) * distance };
+    this.lineTo(start.x, start.y);
+    this.path.push(`A${round(radius)} ${round(radius)} 0 0 ${cross < 0 ? 1 : 0} ${round(end.x)} ${round(end.y)}`);
+    this.current = end;
+  }
+
+  // Painting
+
+  fill() {
+    this.emitPath('fill');
+  }
+
+  stroke() {
+    this.emitPath('stroke');
+  }
+
+  clip() {
+    const id = this.newId('clip');
+    const parent = this.state.clipId ? ` clip-path="url(#${this.state.clipId})"` : '';
+    this.defs.push(
+      `<clipPath id="${id}"${parent}><path d="${this.path.join(' ')}" transform="${this.transformAttribute()}"/></clipPath>`
+    );
+    this.state.clipId = id;
+  }
+
+  fillRect(x: number, y: number, w: number, h: number) {
+    this.emit(`<rect x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}" ${this.paint('fill')}/>`);
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number) {
+    this.emit(`<rect x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}" ${this.paint('stroke')}/>`);
+  }
+
+  clearRect() {
+    // The image starts empty, and the lab only clears the whole canvas before redrawing
+  }
+
+  fillText(text: string, x: number, y: number) {
+    const anchor = { center: 'middle', right: 'end', end: 'end' }[this.state.textAlign as string] ?? 'start';
+    this.emit(
+      `<text x="${round(x)}" y="${round(y)}" text-anchor="${anchor}" style="font: ${escapeXml(this.state.font)}" ${this.paint('fill')}>${escapeXml(text)}</text>`
+    );
+  }
+
+  measureText(text: string): TextMetrics {
+    if (this.measurer) {
+      this.measurer.font = this.state.font;
+      return this.measurer.measureText(text);
+    }
+    return { width: text.length * 6 } as TextMetrics;
+  }
+
+  createLinearGradient(x1: number, y1: number, x2: number, y2: number) {
+    return new SvgGradient(this.newId('gradient'), 'linear', [x1, y1, x2, y2]);
+  }
+
+  createRadialGradient(x1: number, y1: number, r1: number, x2: number, y2: number, r2: number) {
+    return new SvgGradient(this.newId('gradient'), 'radial', [x1, y1, r1, x2, y2, r2]);
+  }
+
+  /**
+   * The finished SVG document
+   */
+  toSvg(): string {
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}">`,
+      `<defs>${this.defs.join('')}</defs>`,
+      ...this.elements,
+      '</svg>',
+    ].join('\n');
+  }
+
+  private newId(prefix: string): string {
+    this.nextId += 1;
+    return `${prefix}-${this.nextId}`;
+  }
+
+  private transformAttribute(): string {
+    return `matrix(${this.state.transform.map(round).join(' ')})`;
+  }
+
+  private emitPath(mode: 'fill' | 'stroke') {
+    if (this.path.length === 0) return;
+    this.emit(`<path d="${this.path.join(' ')}" ${this.paint(mode)}/>`);
+  }
+
+  private emit(element: string) {
+    const transformed = `<g transform="${this.transformAttribute()}">${element}</g>`;
+    // The clip path carries its own transform, so it goes on an untransformed group
+    this.elements.push(this.state.clipId ? `<g clip-path="url(#${this.state.clipId})">${transformed}</g>` : transformed);
+  }
+
+  /**
+   * Fill or stroke attributes from the current style
+   */
+  private paint(mode: 'fill' | 'stroke'): string {
+    const style = mode === 'fill' ? this.state.fillStyle : this.state.strokeStyle;
+    let color: string;
+    if (style instanceof SvgGradient) {
+      if (!this.gradientIds.has(style.id)) {
+        this.gradientIds.add(style.id);
+        this.defs.push(style.toSvg());
+      }
+      color = `url(#${style.id})`;
+    } else {
+      // Patterns can't be recorded; the lab's drawings don't use them
+      color = typeof style === 'string' ? escapeXml(style) : '#000';
+    }
+    const opacity = this.state.globalAlpha < 1 ? ` opacity="${this.state.globalAlpha}"` : '';
+
+    if (mode === 'fill') return `fill="${color}" stroke="none"${opacity}`;
+
+    const dash = this.state.lineDash.length > 0 ? ` stroke-dasharray="${this.state.lineDash.join(' ')}"` : '';
+    const { lineWidth, lineCap, lineJoin } = this.state;
+    return `fill="none" stroke="${color}" stroke-width="${lineWidth}" stroke-linecap="${escapeXml(lineCap)}" stroke-linejoin="${escapeXml(lineJoin)}"${dash}${opacity}`;
+  }
+}
@@ -6,9 +6,10 @@
  * 2. Predict - Student enters predictions
  * 3. Simulate - Run the animation
  * 4. Observe - Compare results
+ * 5. Report - Write up the experiment
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Rocket } from 'lucide-react';
 import { AimSection } from '../components/AimSection';
 import { ControlPanel } from '../components/ControlPanel';
@@ -16,56 +17,290 @@ import { PredictionPanel } from '../components/PredictionPanel';
 import { SimulationCanvas } from '../components/SimulationCanvas';
 import { ResultsPanel } from '../components/ResultsPanel';
 import { GraphPanel } from '../components/GraphPanel';
+import { EnergyPanel } from '../components/EnergyPanel';
+import { ExportPanel } from '../components/ExportPanel';
 import { EquationsPanel } from '../components/EquationsPanel';
+import { NumericalMethodsPanel } from '../components/NumericalMethodsPanel';
+import { ChallengePanel } from '../components/ChallengePanel';
+import { PlaybackControls } from '../components/PlaybackControls';
+import { RunHistoryPanel } from '../components/RunHistoryPanel';
+import { ComplementaryAnglesPanel } from '../components/ComplementaryAnglesPanel';
+import { ExtraProjectilesPanel } from '../components/ExtraProjectilesPanel';
+import { ViewOptions } from '../components/ViewOptions';
+import { ShareLinkButton } from '../components/ShareLinkButton';
+import { SessionsPanel } from '../components/SessionsPanel';
+import { ReportPanel } from '../components/ReportPanel';
 import { useSimulation } from '../hooks/useSimulation';
+import { useChallenge } from '../hooks/useChallenge';
+import { useRunHistory } from '../hooks/useRunHistory';
+import { useExperimentUrl } from '../hooks/useExperimentUrl';
+import { useSessions } from '../hooks/useSessions';
+import { captureCanvases } from '../lib/imageExport';
 import {
-  DEFAULT_INITIAL_VELOCITY,
-  DEFAULT_LAUNCH_ANGLE,
-  STANDARD_GRAVITY,
+  DEFAULT_DRAG,
+  DEFAULT_EXPERIMENT,
+  COMPLEMENTARY_COLOR,
 } from '../physics/constants';
-import { LaunchParameters, Predictions } from '../physics/types';
+import { calculateTrajectoryPoints } from '../physics/equations';
+import { getComplementaryParams } from '../physics/complementary';
+import { isDragEnabled } from '../physics/drag';
+import { experimentFromQuery } from '../physics/experimentUrl';
+import {
+  ChallengeSettings,
+  CompanionLaunch,
+  ExtraProjectile,
+  HighlightPoint,
+  IntegratorSettings,
+  LabSessionContent,
+  LaunchParameters,
+  Predictions,
+  StrobeOptions,
+  Vector2D,
+  VectorOptions,
+} from '../physics/types';
+
+const NO_PREDICTIONS: Predictions = {
+  timeOfFlight: 0,
+  maxHeight: 0,
+  horizontalRange: 0,
+};
 
 const Index: React.FC = () => {
+  // Set-up from the page's link (a shared experiment, or the one before a refresh)
+  const [linkedExperiment] = useState(() => experimentFromQuery(window.location.search, DEFAULT_EXPERIMENT));
+
   // Launch parameters (controlled by sliders/inputs)
-  const [params, setParams] = useState<LaunchParameters>({
-    initialVelocity: DEFAULT_INITIAL_VELOCITY,
-    launchAngle: DEFAULT_LAUNCH_ANGLE,
-    gravity: STANDARD_GRAVITY,
-  });
+  const [params, setParams] = useState<LaunchParameters>(linkedExperiment.params);
 
   // Student predictions
-  const [predictions, setPredictions] = useState<Predictions>({
-    timeOfFlight: 0,
-    maxHeight: 0,
-    horizontalRange: 0,
+  const [predictions, setPredictions] = useState<Predictions>(linkedExperiment.predictions ?? NO_PREDICTIONS);
+
+  // Exact equations or a numerical method
+  const [integrator, setIntegrator] = useState<IntegratorSettings>(linkedExperiment.integrator);
+
+  // Target placed in "Hit a Target" mode
+  const [target, setTarget] = useState<Vector2D | null>(linkedExperiment.target);
+
+  // Complementary-angles experiment: also launch at 90° − θ
+  const [complementaryMode, setComplementaryMode] = useState(linkedExperiment.complementaryMode);
+
+  // Extra projectiles with their own speed, angle and start time
+  const [extraProjectiles, setExtraProjectiles] = useState<ExtraProjectile[]>(linkedExperiment.extraProjectiles);
+
+  // Everything launched alongside the main projectile
+  const companions = useMemo<CompanionLaunch[]>(() => {
+    const launches: CompanionLaunch[] = extraProjectiles.map((projectile, i) => ({
+      params: {
+        ...params,
+        initialVelocity: projectile.initialVelocity,
+        launchAngle: projectile.launchAngle,
+      },
+      label: `P${i + 2}`,
+      color: projectile.color,
+      startDelay: projectile.startDelay,
+    }));
+    if (complementaryMode) {
+      launches.unshift({
+        params: getComplementaryParams(params),
+        label: `${(90 - params.launchAngle).toFixed(1)}°`,
+        color: COMPLEMENTARY_COLOR,
+      });
+    }
+    return launches;
+  }, [complementaryMode, extraProjectiles, params]);
+
+  // Vector arrows drawn on the canvas
+  const [vectorOptions, setVectorOptions] = useState<VectorOptions>(linkedExperiment.vectors);
+
+  // Multi-flash view of the path
+  const [strobeOptions, setStrobeOptions] = useState<StrobeOptions>(linkedExperiment.strobe);
+
+  // The set-up as a whole, for links and saved sessions
+  const experiment = useMemo(() => ({
+    params,
+    integrator,
+    target,
+    complementaryMode,
+    extraProjectiles,
+    vectors: vectorOptions,
+    strobe: strobeOptions,
+  }), [params, integrator, target, complementaryMode, extraProjectiles, vectorOptions, strobeOptions]);
+
+  // Keep the set-up in the page's link, ready to share
+  const experimentLink = useExperimentUrl({
+    experiment,
+    predictions,
+    includePredictionsInitially: linkedExperiment.predictions !== null,
   });
 
+  // Time pointed at on the motion graphs, marked on the canvas as well
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+
   // Track if simulation has been completed at least once
   const [simulationComplete, setSimulationComplete] = useState(false);
 
+  // Saved run that is the one currently on screen (not drawn as a ghost)
+  const [currentRunId, setCurrentRunId] = useState<number | null>(null);
+
   // Simulation hook
   const {
     state,
     results,
+    idealResults,
     trajectory,
+    companionProjectiles,
+    duration,
     isPlaying,
     isPaused,
+    playbackRate,
+    setPlaybackRate,
     play,
     pause,
     reset,
+    seek,
+    stepForward,
+    stepBackward,
     progress,
+    positionError,
   } = useSimulation({
     params,
+    integrator,
+    companions,
     onComplete: () => setSimulationComplete(true),
   });
 
+  // Ideal path drawn for comparison when air resistance is on
+  const dragEnabled = isDragEnabled(params.drag);
+  const idealPath = useMemo(
+    () => (dragEnabled ? calculateTrajectoryPoints(params) : undefined),
+    [dragEnabled, params]
+  );
+
   // Reset handler - also reset completion state
   const handleReset = useCallback(() => {
     reset();
     setSimulationComplete(false);
+    setCurrentRunId(null);
   }, [reset]);
 
-  // Canvas dimensions (responsive)
+  const handleComplementaryModeChange = useCallback((enabled: boolean) => {
+    handleReset();
+    setComplementaryMode(enabled);
+  }, [handleReset]);
+
+  const handleExtraProjectilesChange = useCallback((projectiles: ExtraProjectile[]) => {
+    handleReset();
+    setExtraProjectiles(projectiles);
+  }, [handleReset]);
+
+  // Previous runs, drawn as faded paths for comparison
+  const runHistory = useRunHistory();
+  const { addRun } = runHistory;
+
+  // Save each run once, as soon as it lands
+  useEffect(() => {
+    if (simulationComplete && currentRunId === null) {
+      setCurrentRunId(addRun(params, results, trajectory));
+    }
+  }, [simulationComplete, currentRunId, params, results, trajectory, addRun]);
+
+  const ghostRuns = useMemo(
+    () => runHistory.visibleRuns.filter((run) => run.id !== currentRunId),
+    [runHistory.visibleRuns, currentRunId]
+  );
+
+  // Student's notes, saved with the session
+  const [notes, setNotes] = useState('');
+
+  // Saved sessions: set-up, predictions, finished runs and notes
+  const sessions = useSessions();
+  const { openSession } = sessions;
+  const { loadRuns } = runHistory;
+
+  const sessionContent: LabSessionContent = {
+    experiment: { ...experiment, predictions },
+    runs: runHistory.runs,
+    notes,
+  };
+
+  const handleOpenSession = useCallback((id: string) => {
+    const session = openSession(id);
+    if (!session) return;
+    const saved = session.experiment;
+    handleReset();
+    setParams(saved.params);
+    setPredictions(saved.predictions ?? NO_PREDICTIONS);
+    setIntegrator(saved.integrator);
+    setTarget(saved.target);
+    setComplementaryMode(saved.complementaryMode);
+    setExtraProjectiles(saved.extraProjectiles);
+    setVectorOptions(saved.vectors);
+    setStrobeOptions(saved.strobe);
+    loadRuns(session.runs);
+    setNotes(session.notes);
+  }, [openSession, handleReset, loadRuns]);
+
+  // Student's conclusion for the lab report
+  const [conclusion, setConclusion] = useState('');
+
+  // The report pictures every canvas on the page: the simulation and the graphs
+  const mainRef = useRef<HTMLElement>(null);
+  const getSnapshots = useCallback(
+    () => (mainRef.current ? captureCanvases(mainRef.current) : []),
+    []
+  );
+
+  // Target-practice challenge
+  const challenge = useChallenge({ params });
+  const { recordAttempt, start: startChallenge, nextRound } = challenge;
+
+  // Score the shot as soon as it lands
+  useEffect(() => {
+    if (simulationComplete) recordAttempt(trajectory);
+  }, [simulationComplete, trajectory, recordAttempt]);
+
+  // Dragging the arrow on the canvas edits the same parameters as the sliders
+  const handleAim = useCallback((launchAngle: number, initialVelocity: number) => {
+    setParams((prev) => ({ ...prev, launchAngle, initialVelocity }));
+  }, []);
+
+  // Mass lives with the air resistance settings, so drag and energy agree
+  const handleMassChange = useCallback((mass: number) => {
+    setParams((prev) => ({ ...prev, drag: { ...(prev.drag ?? DEFAULT_DRAG), mass } }));
+  }, []);
+
+  const handleStartChallenge = useCallback((settings: ChallengeSettings) => {
+    handleReset();
+    startChallenge(settings);
+  }, [handleReset, startChallenge]);
+
+  const handleNextRound = useCallback(() => {
+    handleReset();
+    nextRound();
+  }, [handleReset, nextRound]);
+
+  // Challenge target and the last shot's impact, drawn on the canvas
+  const challengeHighlights = useMemo(() => {
+    const points: HighlightPoint[] = [];
+    if (challenge.target) {
+      points.push({
+        position: challenge.target.position,
+        label: `Round ${challenge.round}`,
+        type: 'target',
+        radius: challenge.target.radius,
+      });
+    }
+    if (challenge.lastAttempt && !challenge.lastAttempt.hit) {
+      points.push({
+        position: challenge.lastAttempt.impactPoint,
+        label: challenge.lastAttempt.blockedByWall ? 'Blocked!' : 'Miss',
+        type: 'impact',
+      });
+    }
+    return points;
+  }, [challenge.target, challenge.round, challenge.lastAttempt]);
+
+  // Preferred canvas size; the canvas fills the card at this aspect ratio
   const canvasWidth = 720;
   const canvasHeight = 380;
 
@@ -82,12 +317,17 @@ const Index: React.FC = () => {
               <h1 className="text-xl font-bold text-foreground">Physics LaunchPad</h1>
               <p className="text-sm text-muted-foreground">Projectile Motion Virtual Lab</p>
             </div>
+            <ShareLinkButton
+              shareLink={experimentLink.shareLink}
+              includePredictions={experimentLink.includePredictions}
+              onIncludePredictionsChange={experimentLink.setIncludePredictions}
+            />
           </div>
         </div>
       </header>
 
       {/* Main Content */}
-      <main className="container mx-auto px-4 py-6 space-y-6">
+      <main ref={mainRef} className="container mx-auto px-4 py-6 space-y-6">
         {/* Aim Section */}
         <AimSection />
 
@@ -101,6 +341,8 @@ const Index: React.FC = () => {
             <PredictionPanel
               predictions={predictions}
               onPredictionsChange={setPredictions}
+              launchHeight={params.launchHeight}
+              landingHeight={params.landingHeight}
               disabled={isPlaying}
             />
             <ControlPanel
@@ -111,6 +353,42 @@ const Index: React.FC = () => {
               onPlay={play}
               onPause={pause}
               onReset={handleReset}
+              target={target}
+              onTargetChange={setTarget}
+            />
+            <ComplementaryAnglesPanel
+              params={params}
+              enabled={complementaryMode}
+              onEnabledChange={handleComplementaryModeChange}
+              disabled={isPlaying}
+            />
+            <ExtraProjectilesPanel
+              params={params}
+              projectiles={extraProjectiles}
+              onProjectilesChange={handleExtraProjectilesChange}
+              disabled={isPlaying}
+            />
+            <ChallengePanel
+              isActive={challenge.isActive}
+              isFinished={challenge.isFinished}
+              round={challenge.round}
+              rounds={challenge.settings.rounds}
+              attempts={challenge.attempts}
+              lastAttempt={challenge.lastAttempt}
+              score={challenge.score}
+              streak={challenge.streak}
+              bestStreak={challenge.bestStreak}
+              onStart={handleStartChallenge}
+              onNextRound={handleNextRound}
+              onStop={challenge.stop}
+              disabled={isPlaying}
+            />
+            <NumericalMethodsPanel
+              params={params}
+              integrator={integrator}
+              onIntegratorChange={setIntegrator}
+              positionError={positionError}
+              disabled={isPlaying}
             />
           </div>
 
@@ -121,9 +399,10 @@ const Index: React.FC = () => {
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-semibold text-foreground">Simulation</h3>
                 <div className="flex items-center gap-3">
-                  {isPlaying && (
+                  {(isPlaying || isPaused) && (
                     <span className="text-sm mono text-trajectory">
                       t = {state.time.toFixed(2)}s
+                      {playbackRate !== 1 && ` (${playbackRate}×)`}
                     </span>
                   )}
                   {/* Progress bar */}
@@ -140,11 +419,46 @@ const Index: React.FC = () => {
                 width={canvasWidth}
                 height={canvasHeight}
                 currentPosition={state.position}
+                currentVelocity={state.velocity}
                 trajectory={trajectory}
                 results={results}
                 isActive={state.isActive}
+                launchHeight={params.launchHeight}
+                landingHeight={params.landingHeight}
+                referencePath={idealPath}
+                target={target}
+                highlights={challengeHighlights}
+                wall={challenge.target?.wall}
+                ghostRuns={ghostRuns}
+                companions={companionProjectiles}
+                gravity={params.gravity}
+                vectors={vectorOptions}
+                strobe={strobeOptions}
+                launchVelocity={params.initialVelocity}
+                launchAngle={params.launchAngle}
+                onAim={isPlaying ? undefined : handleAim}
+                hoverTime={hoverTime}
               />
 
+              <div className="mt-4 space-y-3">
+                <PlaybackControls
+                  playbackRate={playbackRate}
+                  onPlaybackRateChange={setPlaybackRate}
+                  time={state.time}
+                  duration={duration}
+                  onSeek={seek}
+                  onStepForward={stepForward}
+                  onStepBackward={stepBackward}
+                  canSeek={isPlaying || isPaused || simulationComplete}
+                />
+                <ViewOptions
+                  vectors={vectorOptions}
+                  onVectorsChange={setVectorOptions}
+                  strobe={strobeOptions}
+                  onStrobeChange={setStrobeOptions}
+                />
+              </div>
+
               {/* Current state display */}
               {(isPlaying || isPaused || simulationComplete) && (
                 <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-3">
@@ -173,6 +487,45 @@ const Index: React.FC = () => {
               results={results}
               predictions={predictions}
               simulationComplete={simulationComplete}
+              idealResults={dragEnabled ? idealResults : undefined}
+              params={params}
+              integrator={integrator}
+            />
+
+            {/* Energy */}
+            <EnergyPanel
+              params={params}
+              position={state.position}
+              velocity={state.velocity}
+              hasLaunched={trajectory.times.length > 0}
+            />
+
+            {/* Previous runs */}
+            <RunHistoryPanel
+              runs={runHistory.runs}
+              onTogglePinned={runHistory.togglePinned}
+              onToggleVisible={runHistory.toggleVisible}
+              onColorChange={runHistory.setRunColor}
+              onRemove={runHistory.removeRun}
+              onClear={runHistory.clearRuns}
+            />
+
+            {/* Data export */}
+            <ExportPanel trajectory={trajectory} params={params} />
+
+            {/* Saved sessions */}
+            <SessionsPanel
+              sessions={sessions.sessions}
+              activeSession={sessions.activeSession}
+              notes={notes}
+              onNotesChange={setNotes}
+              onSave={() => sessions.saveSession(sessionContent)}
+              onSaveAs={(name) => sessions.saveSessionAs(name, sessionContent)}
+              onOpen={handleOpenSession}
+              onRename={sessions.renameSession}
+              onDuplicate={sessions.duplicateSession}
+              onDelete={sessions.deleteSession}
+              onImport={sessions.importSession}
             />
           </div>
         </div>
@@ -181,6 +534,25 @@ const Index: React.FC = () => {
         <GraphPanel
           trajectory={trajectory}
           results={results}
+          params={params}
+          onMassChange={handleMassChange}
+          massDisabled={isPlaying}
+          ghostRuns={ghostRuns}
+          companions={companionProjectiles}
+          hoverTime={hoverTime}
+          onHoverTimeChange={setHoverTime}
+        />
+
+        {/* Lab report */}
+        <ReportPanel
+          params={params}
+          integrator={integrator}
+          predictions={predictions}
+          results={results}
+          simulationComplete={simulationComplete}
+          conclusion={conclusion}
+          onConclusionChange={setConclusion}
+          getSnapshots={getSnapshots}
         />
 
         {/* Footer */}
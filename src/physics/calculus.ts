@@ -0,0 +1,111 @@
+/**
+ * calculus.ts - Slopes and areas of sampled graphs
+ *
+ * The motion graphs are drawn from samples, so the tangent and area tools
+ * work numerically:
+ *
+ *   slope ≈ Δvalue / Δt          (central difference)
+ *   area  ≈ Σ ½(v₁ + v₂) Δt      (trapezium rule)
+ *
+ * With the samples close together these match the velocity and
+ * displacement recorded in the trajectory.
+ */
+
+import { DataPoint } from './types';
+
+/**
+ * Index of the last sample at or before `time` (data is in time order)
+ */
+function findSegment(data: DataPoint[], time: number): number {
+  let low = 0;
+  let high = data.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (data[mid].time <= time) low = mid;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Value of the graph at `time`, interpolated between samples
+ */
+export function valueAt(data: DataPoint[], time: number): number {
+  if (data.length === 0) return 0;
+  if (time <= data[0].time) return data[0].value;
+  if (time >= data[data.length - 1].time) return data[data.length - 1].value;
+
+  const i = findSegment(data, time);
+  const a = data[i];
+  const b = data[i + 1];
+  return a.value + ((time - a.time) / (b.time - a.time)) * (b.value - a.value);
+}
+
+/**
+ * Slope of the tangent at sample `i`, from its neighbours either side
+ */
+function slopeAtSample(data: DataPoint[], i: number): number {
+  const before = data[Math.max(0, i - 1)];
+  const after = data[Math.min(data.length - 1, i + 1)];
+  const dt = after.time - before.time;
+  return dt > 0 ? (after.value - before.value) / dt : 0;
+}
+
+/**
+ * Slope of the tangent to the graph at `time`
+ */
+export function slopeAt(data: DataPoint[], time: number): number {
+  if (data.length < 2) return 0;
+  if (time <= data[0].time) return slopeAtSample(data, 0);
+  if (time >= data[data.length - 1].time) return slopeAtSample(data, data.length - 1);
+
+  const i = findSegment(data, time);
+  const fraction = (time - data[i].time) / (data[i + 1].time - data[i].time);
+  return slopeAtSample(data, i) + fraction * (slopeAtSample(data, i + 1) - slopeAtSample(data, i));
+}
+
+/**
+ * Signed area between the graph and the time axis from `start` to `end`.
+ * The limits can be given either way round; the graph is not extended
+ * past its first or last sample.
+ */
+export function areaUnder(data: DataPoint[], start: number, end: number): number {
+  if (data.length < 2) return 0;
+  const from = Math.max(Math.min(start, end), data[0].time);
+  const to = Math.min(Math.max(start, end), data[data.length - 1].time);
+  if (to <= from) return 0;
+
+  // Trapezia between the limits and every sample inside them
+  const points: DataPoint[] = [{ time: from, value: valueAt(data, from) }];
+  data.forEach((point) => {
+    if (point.time > from && point.time < to) points.push(point);
+  });
+  points.push({ time: to, value: valueAt(data, to) });
+
+  let area = 0;
+  for (let i = 1; i < points.length; i++) {
+    area += 0.5 * (points[i - 1].value + points[i].value) * (points[i].time - points[i - 1].time);
+  }
+  return area;
+}
+
+/**
+ * Distance travelled along the path traced by `x` and `y` (sampled at the
+ * same times) from `start` to `end`, in straight steps between samples
+ */
+export function pathLength(x: DataPoint[], y: DataPoint[], start: number, end: number): number {
+  if (x.length < 2) return 0;
+  const from = Math.max(Math.min(start, end), x[0].time);
+  const to = Math.min(Math.max(start, end), x[x.length - 1].time);
+  if (to <= from) return 0;
+
+  const times = [from, ...x.map((point) => point.time).filter((time) => time > from && time < to), to];
+  let length = 0;
+  for (let i = 1; i < times.length; i++) {
+    length += Math.hypot(
+      valueAt(x, times[i]) - valueAt(x, times[i - 1]),
+      valueAt(y, times[i]) - valueAt(y, times[i - 1])
+    );
+  }
+  return length;
+}
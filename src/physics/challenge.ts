@@ -0,0 +1,184 @@
+/**
+ * challenge.ts - Target-practice challenge rules
+ *
+ * Places random targets (optionally raised or behind a wall) and scores
+ * a finished trajectory by how close it came to the target.
+ */
+
+import { CHALLENGE_TARGET_RADIUS, LIMITS } from './constants';
+import { createReferenceMotion } from './integrators';
+import { ChallengeSettings, ChallengeTarget, LaunchParameters, TrajectoryData, Vector2D, Wall } from './types';
+
+// Ranges used when placing random targets (meters)
+const TARGET_DISTANCE = { min: 15, max: 80 };
+const TARGET_HEIGHT = { min: 2, max: 15 };
+const WALL_HEIGHT = { min: 3, max: 12 };
+
+// Give up looking for a reachable target (with its wall) after this many tries
+const MAX_PLACEMENT_TRIES = 20;
+
+// When checking that a target can be hit: launch angles tried (degrees
+// apart), halvings of the speed range at each angle, and points per test flight
+const REACH_ANGLE_STEP = 5;
+const REACH_SPEED_HALVINGS = 10;
+const REACH_PATH_SAMPLES = 200;
+
+function randomBetween(min: number, max: number, random: () => number): number {
+  return min + (max - min) * random();
+}
+
+/**
+ * The flight the simulation shows for this speed and angle, with the
+ * lab's air resistance and landing height
+ */
+function testFlight(params: LaunchParameters, initialVelocity: number, launchAngle: number): TrajectoryData {
+  const { results, getMotionAtTime } = createReferenceMotion({ ...params, initialVelocity, launchAngle });
+  const trajectory: TrajectoryData = { positions: [], velocities: [], times: [] };
+  for (let i = 0; i <= REACH_PATH_SAMPLES; i++) {
+    const time = (results.timeOfFlight * i) / REACH_PATH_SAMPLES;
+    const { position, velocity } = getMotionAtTime(time);
+    trajectory.positions.push(position);
+    trajectory.velocities.push(velocity);
+    trajectory.times.push(time);
+  }
+  return trajectory;
+}
+
+/**
+ * Height of a flight as it passes distance `x`; -Infinity if it comes down first
+ */
+function heightAtDistance(trajectory: TrajectoryData, x: number): number {
+  const { positions } = trajectory;
+  for (let i = 1; i < positions.length; i++) {
+    const a = positions[i - 1];
+    const b = positions[i];
+    if (b.x >= x) {
+      return b.x > a.x ? a.y + ((x - a.x) / (b.x - a.x)) * (b.y - a.y) : b.y;
+    }
+  }
+  return -Infinity;
+}
+
+/**
+ * Whether some speed and angle the controls allow hits the target (and
+ * not the wall), scored the same way as the student's shots
+ */
+function canHitTarget(target: ChallengeTarget, params: LaunchParameters): boolean {
+  const { x, y } = target.position;
+  for (let angle = LIMITS.angle.min; angle <= LIMITS.angle.max; angle += REACH_ANGLE_STEP) {
+    // At a fixed angle the path passes the target higher the faster it goes
+    let low = LIMITS.velocity.min;
+    let high = LIMITS.velocity.max;
+    if (heightAtDistance(testFlight(params, high, angle), x) < y) continue;
+    for (let i = 0; i < REACH_SPEED_HALVINGS; i++) {
+      const speed = (low + high) / 2;
+      if (heightAtDistance(testFlight(params, speed, angle), x) < y) {
+        low = speed;
+      } else {
+        high = speed;
+      }
+    }
+    if (evaluateAttempt(testFlight(params, high, angle), target).hit) return true;
+  }
+  return false;
+}
+
+/**
+ * Pick a random target (and wall, if asked for) that the student can
+ * actually hit with the lab's controls. Targets stand on the landing
+ * surface or above it. If no wall arrangement works, the wall is left
+ * out; if nothing random works, the nearest reachable target on the
+ * landing surface is used.
+ */
+export function generateChallengeTarget(
+  settings: ChallengeSettings,
+  params: LaunchParameters,
+  random: () => number = Math.random
+): ChallengeTarget {
+  const ground = params.landingHeight;
+
+  const place = (withWall: boolean): ChallengeTarget | null => {
+    for (let i = 0; i < MAX_PLACEMENT_TRIES; i++) {
+      const position = {
+        x: Math.round(randomBetween(TARGET_DISTANCE.min, TARGET_DISTANCE.max, random)),
+        y: settings.elevatedTargets
+          ? ground + Math.round(randomBetween(TARGET_HEIGHT.min, TARGET_HEIGHT.max, random))
+          : ground,
+      };
+      // Wall somewhere between the launcher and the target
+      const wall: Wall | null = withWall
+        ? {
+          x: Math.round(position.x * randomBetween(0.4, 0.7, random)),
+          height: Math.round(randomBetween(WALL_HEIGHT.min, WALL_HEIGHT.max, random)),
+        }
+        : null;
+
+      const target = { position, radius: CHALLENGE_TARGET_RADIUS, wall };
+      if (canHitTarget(target, params)) return target;
+    }
+    return null;
+  };
+
+  const placed = (settings.walls ? place(true) : null) ?? place(false);
+  if (placed) return placed;
+
+  // Unusual set-ups (e.g. a very high launcher or heavy drag): walk out along the landing surface
+  for (let x = TARGET_DISTANCE.min; x <= TARGET_DISTANCE.max; x++) {
+    const target = { position: { x, y: ground }, radius: CHALLENGE_TARGET_RADIUS, wall: null };
+    if (canHitTarget(target, params)) return target;
+  }
+  return { position: { x: TARGET_DISTANCE.min, y: ground }, radius: CHALLENGE_TARGET_RADIUS, wall: null };
+}
+
+/**
+ * Shortest distance from a point to the line segment a → b
+ */
+function distanceToSegment(point: Vector2D, a: Vector2D, b: Vector2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0
+    ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+    : 0;
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+/**
+ * Score a finished flight: closest approach to the target, whether the
+ * wall got in the way first, and where the projectile ended up.
+ */
+export function evaluateAttempt(
+  trajectory: TrajectoryData,
+  target: ChallengeTarget
+): { missDistance: number; hit: boolean; blockedByWall: boolean; impactPoint: Vector2D } {
+  const { positions } = trajectory;
+  const { wall } = target;
+  let missDistance = Infinity;
+  let impactPoint = positions[positions.length - 1] ?? { x: 0, y: 0 };
+  let blockedByWall = false;
+
+  for (let i = 1; i < positions.length; i++) {
+    const a = positions[i - 1];
+    let b = positions[i];
+
+    // Cut the path short where it meets the wall
+    if (wall && a.x <= wall.x && b.x >= wall.x && b.x > a.x) {
+      const y = a.y + ((wall.x - a.x) / (b.x - a.x)) * (b.y - a.y);
+      if (y <= wall.height) {
+        b = { x: wall.x, y };
+        impactPoint = b;
+        blockedByWall = true;
+      }
+    }
+
+    missDistance = Math.min(missDistance, distanceToSegment(target.position, a, b));
+    if (blockedByWall) break;
+  }
+
+  return {
+    missDistance,
+    hit: !blockedByWall && missDistance <= target.radius,
+    blockedByWall,
+    impactPoint,
+  };
+}
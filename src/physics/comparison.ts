@@ -0,0 +1,52 @@
+/**
+ * comparison.ts - Student predictions against the simulated results
+ *
+ * Used by the results table and the lab report, so both show the same
+ * errors and ratings.
+ */
+
+import { CalculatedResults, ComparisonResult, Predictions } from './types';
+
+/**
+ * One row of the comparison. The error is relative to the actual value
+ * (0 when that is 0, e.g. a launch straight down from the ground).
+ */
+function compare(label: string, predicted: number, actual: number, unit: string): ComparisonResult {
+  const difference = Math.abs(predicted - actual);
+  return {
+    label,
+    predicted,
+    actual,
+    difference,
+    percentError: actual > 0 ? (difference / actual) * 100 : 0,
+    unit,
+  };
+}
+
+/**
+ * Time of flight, maximum height and range: predicted and actual
+ */
+export function compareWithPredictions(predictions: Predictions, results: CalculatedResults): ComparisonResult[] {
+  return [
+    compare('Time of Flight', predictions.timeOfFlight, results.timeOfFlight, 's'),
+    compare('Maximum Height', predictions.maxHeight, results.maxHeight, 'm'),
+    compare('Horizontal Range', predictions.horizontalRange, results.horizontalRange, 'm'),
+  ];
+}
+
+/**
+ * Whether a prediction was entered (0 means the field was left empty)
+ */
+export function hasPrediction(comparison: ComparisonResult): boolean {
+  return comparison.predicted > 0;
+}
+
+/**
+ * Word rating for a percentage error
+ */
+export function getAccuracyLabel(percentError: number): string {
+  if (percentError <= 5) return 'Excellent!';
+  if (percentError <= 10) return 'Good';
+  if (percentError <= 20) return 'Close';
+  return 'Try again';
+}
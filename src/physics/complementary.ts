@@ -0,0 +1,42 @@
+/**
+ * complementary.ts - The complementary-angles experiment
+ *
+ * On level ground, θ and 90° − θ give the same range, because
+ *
+ *   R = v₀² sin(2θ) / g   and   sin(2θ) = sin(180° − 2θ)
+ *
+ * The steeper launch stays in the air longer and climbs higher.
+ * Landing higher or lower than the launch, or air resistance, breaks the
+ * symmetry.
+ */
+
+import { isDragEnabled } from './drag';
+import { createReferenceMotion } from './integrators';
+import { ComplementaryComparison, LaunchParameters } from './types';
+
+/**
+ * The same launch at 90° − θ
+ */
+export function getComplementaryParams(params: LaunchParameters): LaunchParameters {
+  return { ...params, launchAngle: 90 - params.launchAngle };
+}
+
+/**
+ * Results of θ and 90° − θ side by side, lower angle first.
+ * These come from the kinematic equations (or the drag solution when
+ * air resistance is on), so they match what the canvas animates.
+ */
+export function compareComplementaryAngles(params: LaunchParameters): ComplementaryComparison {
+  const angles = [params.launchAngle, 90 - params.launchAngle].sort((a, b) => a - b);
+  const [low, high] = angles.map((launchAngle) => ({
+    launchAngle,
+    results: createReferenceMotion({ ...params, launchAngle }).results,
+  }));
+
+  return {
+    low,
+    high,
+    rangeDifference: high.results.horizontalRange - low.results.horizontalRange,
+    isSymmetric: params.launchHeight === params.landingHeight && !isDragEnabled(params.drag),
+  };
+}
@@ -1,3 +1,15 @@
+import {
+  ChallengeSettings,
+  DataExportOptions,
+  DragParameters,
+  ExperimentConfig,
+  GraphKind,
+  IntegratorMethod,
+  IntegratorSettings,
+  StrobeOptions,
+  Vector2D,
+  VectorOptions,
+} from './types';
 
 export const STANDARD_GRAVITY = 9.8; // m/s²
 
@@ -8,6 +20,35 @@ export const DEFAULT_INITIAL_VELOCITY = 20; // m/s
 export const DEFAULT_LAUNCH_ANGLE = 45; // degrees
 
 
+export const DEFAULT_LAUNCH_HEIGHT = 0; // meters
+
+
+export const DEFAULT_LANDING_HEIGHT = 0; // meters
+
+
+// A baseball-sized sphere in sea-level air
+export const DEFAULT_DRAG: DragParameters = {
+  model: 'none',
+  mass: 0.145,               // kg
+  dragCoefficient: 0.47,     // smooth sphere
+  crossSectionArea: 0.0042,  // m² (7.3 cm diameter)
+  airDensity: 1.225,         // kg/m³
+};
+
+
+export const DEFAULT_TARGET: Vector2D = { x: 40, y: 0 }; // meters (distance, height)
+
+
+export const DEFAULT_CHALLENGE_SETTINGS: ChallengeSettings = {
+  rounds: 5,
+  elevatedTargets: false,
+  walls: false,
+};
+
+
+export const CHALLENGE_TARGET_RADIUS = 1.5; // meters
+
+
 export const LIMITS = {
   velocity: {
     min: 1,      // At least 1 m/s
@@ -21,15 +62,185 @@ export const LIMITS = {
     min: 1,      // Minimum gravity
     max: 20,     // Maximum gravity (about 2x Earth)
   },
+  height: {
+    min: 0,      // Ground level
+    max: 100,    // Maximum 100 m (a tall cliff or tower)
+  },
+  distance: {
+    min: 1,      // Target at least 1 m away
+    max: 1000,   // Maximum 1 km (longest range at 100 m/s on Earth)
+  },
+  mass: {
+    min: 0.01,   // 10 g (a ping-pong ball is ~2.7 g)
+    max: 10,     // 10 kg (a shot put is ~7 kg)
+  },
+  dragCoefficient: {
+    min: 0,
+    max: 2,      // Flat plate facing the wind is ~1.2
+  },
+  crossSectionArea: {
+    min: 0.0001, // 1 cm²
+    max: 1,      // 1 m²
+  },
+  airDensity: {
+    min: 0,      // Vacuum
+    max: 5,      // Much denser than Earth's air (1.225 kg/m³)
+  },
+  startDelay: {
+    min: 0,      // Launched with the main projectile
+    max: 10,     // Up to 10 s later
+  },
 };
 
 
-export const TIME_STEP = 0.016; // seconds (60 FPS)
+export const TIME_STEP = 0.016; // seconds (one 60 FPS frame; used for frame stepping)
+
+
+export const MAX_FRAME_TIME = 0.1; // seconds (longest real gap counted between frames)
+
+
+export const PLAYBACK_RATES = [0.1, 0.25, 0.5, 1, 2, 4]; // × real time
+
+
+export const DEFAULT_PLAYBACK_RATE = 1; // real time
+
+
+export const DRAG_TIME_STEP = 0.001; // seconds (numerical integration step for drag)
+
+
+export const INTEGRATOR_TIME_STEPS = [0.2, 0.1, 0.05, 0.01]; // seconds (choices for Δt)
+
+
+export const DEFAULT_INTEGRATOR: IntegratorSettings = {
+  method: 'analytic',
+  timeStep: 0.05,
+};
+
+
+export const INTEGRATOR_LABELS: Record<IntegratorMethod, string> = {
+  analytic: 'Exact equations',
+  euler: 'Euler',
+  'semi-implicit-euler': 'Semi-implicit Euler',
+  verlet: 'Velocity Verlet',
+  rk4: 'Runge-Kutta (RK4)',
+};
+
+
+export const MAX_SAVED_RUNS = 8; // oldest unpinned run is dropped beyond this
+
+
+export const RUN_COLORS = ['#a48bc6', '#7cc9a0', '#f0a050', '#6fa8dc', '#e06b8b', '#c9b84a'];
+
+
+export const COMPLEMENTARY_COLOR = '#6fa8dc'; // second projectile at 90° − θ
+
+
+export const MAX_EXTRA_PROJECTILES = 4;
+
+
+export const PROJECTILE_COLORS = ['#5b9bd5', '#9b7ed1', '#4fb39a', '#d9a23b'];
+
+
+export const DEFAULT_VECTOR_OPTIONS: VectorOptions = {
+  velocity: false,
+  components: false,
+  acceleration: false,
+  alongPath: false,
+};
+
+
+export const VECTOR_PATH_INTERVAL = 0.5; // seconds between arrows drawn along the path
+
+
+export const STROBE_INTERVALS = [0.1, 0.2, 0.25, 0.5, 1]; // seconds between flashes
+
+
+export const DEFAULT_STROBE_OPTIONS: StrobeOptions = {
+  enabled: false,
+  interval: 0.25,
+  guides: false,
+};
+
+
+// Graphs shown in the motion graphs panel until the student picks others
+export const DEFAULT_GRAPHS: GraphKind[] = ['displacement', 'velocity'];
 
 
 export const DECIMAL_PLACES = 2;
 
 
+// Spacing of exported samples (seconds); 0 keeps every recorded sample
+export const EXPORT_INTERVALS = [0, 0.01, 0.05, 0.1, 0.25, 0.5];
+
+
+export const MAX_EXPORT_DECIMALS = 6;
+
+
+export const DEFAULT_EXPORT_OPTIONS: DataExportOptions = {
+  format: 'csv',
+  interval: 0.1,
+  decimals: DECIMAL_PLACES,
+};
+
+
+// Exported PNGs are drawn at this multiple of the on-screen size, sharp enough for printing
+export const IMAGE_EXPORT_SCALE = 3;
+
+
+export const ANIMATION_EXPORT_FPS = 20; // frames per second of exported GIF/WebM flights
+
+
+// The lab as it opens without a shared link
+export const DEFAULT_EXPERIMENT: ExperimentConfig = {
+  params: {
+    initialVelocity: DEFAULT_INITIAL_VELOCITY,
+    launchAngle: DEFAULT_LAUNCH_ANGLE,
+    gravity: STANDARD_GRAVITY,
+    launchHeight: DEFAULT_LAUNCH_HEIGHT,
+    landingHeight: DEFAULT_LANDING_HEIGHT,
+    drag: DEFAULT_DRAG,
+  },
+  integrator: DEFAULT_INTEGRATOR,
+  target: null,
+  complementaryMode: false,
+  extraProjectiles: [],
+  vectors: DEFAULT_VECTOR_OPTIONS,
+  strobe: DEFAULT_STROBE_OPTIONS,
+  predictions: null,
+};
+
+
+export const SESSION_STORAGE_KEY = 'physics-launchpad.sessions'; // browser storage entry for saved sessions
+
+
+// Session files say what they are and which version of the layout they use,
+// so older files can still be read after the layout changes
+export const SESSION_FILE_FORMAT = 'physics-launchpad-session';
+
+
+export const SESSION_FILE_VERSION = 1;
+
+
+// What the experiment is about, shown at the top of the page and in the lab report
+export const LAB_AIM = {
+  statement: 'To study the motion of a projectile under uniform gravitational acceleration '
+    + 'and verify the kinematic equations for projectile motion.',
+  keyConcepts: [
+    'Uniform acceleration due to gravity',
+    'Independent horizontal and vertical motion',
+    'Parabolic trajectory of projectiles',
+  ],
+  assumptions: [
+    'No air resistance (unless the drag model is switched on)',
+    'Constant gravitational acceleration',
+    'Motion in 2D plane only',
+  ],
+};
+
+
+export const REPORT_TITLE = 'Projectile Motion Lab Report';
+
+
 export const DEG_TO_RAD = Math.PI / 180;
 
 
@@ -0,0 +1,116 @@
+/**
+ * dataExport.ts - Recorded trajectory data as CSV or JSON
+ *
+ * Students analyse their runs in spreadsheets and Python, so every
+ * sample is written out with its time, position, velocity and speed,
+ * together with the launch parameters that produced it.
+ */
+
+import { DECIMAL_PLACES } from './constants';
+import { isDragEnabled } from './drag';
+import { interpolateTrajectory, sampleMotion } from './integrators';
+import { DataExportOptions, LaunchParameters, TrajectoryData } from './types';
+
+interface ExportRow {
+  t: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  speed: number;
+}
+
+const CSV_COLUMNS = ['t (s)', 'x (m)', 'y (m)', 'vx (m/s)', 'vy (m/s)', 'speed (m/s)'];
+
+/**
+ * The samples to export: every recorded one, or evenly spaced ones
+ * (plus the last) interpolated from the recording
+ */
+export function resampleTrajectory(trajectory: TrajectoryData, interval: number): TrajectoryData {
+  if (interval <= 0 || trajectory.times.length < 2) return trajectory;
+  const endTime = trajectory.times[trajectory.times.length - 1];
+  return sampleMotion((time) => interpolateTrajectory(trajectory, time), endTime, interval);
+}
+
+/**
+ * Launch parameters as name/value pairs with units
+ */
+export function describeParameters(params: LaunchParameters): [string, string][] {
+  const rows: [string, string][] = [
+    ['Initial velocity (m/s)', String(params.initialVelocity)],
+    ['Launch angle (deg)', String(params.launchAngle)],
+    ['Gravity (m/s^2)', String(params.gravity)],
+    ['Launch height (m)', String(params.launchHeight)],
+    ['Landing height (m)', String(params.landingHeight)],
+  ];
+  if (isDragEnabled(params.drag)) {
+    rows.push(
+      ['Drag model', params.drag.model],
+      ['Mass (kg)', String(params.drag.mass)],
+      ['Drag coefficient', String(params.drag.dragCoefficient)],
+      ['Cross-section area (m^2)', String(params.drag.crossSectionArea)],
+      ['Air density (kg/m^3)', String(params.drag.airDensity)],
+    );
+  }
+  return rows;
+}
+
+function toRows(trajectory: TrajectoryData, options: DataExportOptions): ExportRow[] {
+  const samples = resampleTrajectory(trajectory, options.interval);
+  const round = (value: number) => Number(value.toFixed(options.decimals));
+  return samples.times.map((time, i) => {
+    const position = samples.positions[i];
+    const velocity = samples.velocities[i];
+    return {
+      t: round(time),
+      x: round(position.x),
+      y: round(position.y),
+      vx: round(velocity.x),
+      vy: round(velocity.y),
+      speed: round(Math.hypot(velocity.x, velocity.y)),
+    };
+  });
+}
+
+/**
+ * CSV with the launch parameters as `#` comment lines above the data
+ * (pandas reads it with `comment='#'`)
+ */
+export function trajectoryToCSV(
+  trajectory: TrajectoryData,
+  params: LaunchParameters,
+  options: DataExportOptions
+): string {
+  const header = describeParameters(params).map(([name, value]) => `# ${name}: ${value}`);
+  const rows = toRows(trajectory, options).map((row) =>
+    [row.t, row.x, row.y, row.vx, row.vy, row.speed]
+      .map((value) => value.toFixed(options.decimals))
+      .join(',')
+  );
+  return [...header, CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * JSON with the launch parameters, the export settings and the samples
+ */
+export function trajectoryToJSON(
+  trajectory: TrajectoryData,
+  params: LaunchParameters,
+  options: DataExportOptions
+): string {
+  return JSON.stringify({
+    parameters: params,
+    sampleInterval: options.interval,
+    decimals: options.decimals,
+    samples: toRows(trajectory, options),
+  }, null, 2);
+}
+
+/**
+ * File name describing the launch, e.g. projectile-v20-a45.csv
+ * (values rounded, so a solved angle doesn't give long decimals)
+ */
+export function getExportFileName(params: LaunchParameters, extension: string): string {
+  const round = (value: number) => Number(value.toFixed(DECIMAL_PLACES));
+  return `projectile-v${round(params.initialVelocity)}-a${round(params.launchAngle)}.${extension}`;
+}
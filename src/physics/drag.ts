@@ -0,0 +1,61 @@
+/**
+ * drag.ts - Air resistance forces
+ *
+ * With drag there is no simple closed-form solution, so the trajectory
+ * is solved step by step (see integrators.ts) using the accelerations
+ * calculated here.
+ */
+
+import { calculateResultantVelocity } from './equations';
+import { DragParameters, LaunchParameters, Vector2D } from './types';
+
+/**
+ * True when the parameters ask for an air resistance model
+ */
+export function isDragEnabled(drag?: DragParameters): drag is DragParameters {
+  return !!drag && drag.model !== 'none';
+}
+
+/**
+ * Acceleration caused by air resistance alone (m/s²).
+ *
+ * Quadratic: F = −½ρC_dA|v|v
+ * Linear:    F = −bv, with b = ½ρC_dA·v₀ so both models give the
+ *            same force at the launch speed and can be compared fairly.
+ */
+export function calculateDragAcceleration(
+  velocity: Vector2D,
+  drag: DragParameters,
+  launchSpeed: number
+): Vector2D {
+  if (drag.model === 'none' || drag.mass <= 0) {
+    return { x: 0, y: 0 };
+  }
+
+  const k = 0.5 * drag.airDensity * drag.dragCoefficient * drag.crossSectionArea;
+  const factor = drag.model === 'quadratic'
+    ? (k * calculateResultantVelocity(velocity)) / drag.mass
+    : (k * launchSpeed) / drag.mass;
+
+  return {
+    x: -factor * velocity.x,
+    y: -factor * velocity.y,
+  };
+}
+
+/**
+ * Total acceleration: gravity plus air resistance (m/s²)
+ */
+export function calculateAcceleration(
+  velocity: Vector2D,
+  params: LaunchParameters
+): Vector2D {
+  const dragAcceleration = isDragEnabled(params.drag)
+    ? calculateDragAcceleration(velocity, params.drag, params.initialVelocity)
+    : { x: 0, y: 0 };
+
+  return {
+    x: dragAcceleration.x,
+    y: dragAcceleration.y - params.gravity,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * energy.ts - Kinetic and potential energy of the projectile
+ *
+ *   KE = ½mv²      PE = mgh      E = KE + PE
+ *
+ * Heights are measured from the ground (y = 0). Without air resistance
+ * the total E stays the same for the whole flight. With it, the drop in
+ * E is the work done against the air.
+ */
+
+import { DEFAULT_DRAG } from './constants';
+import { isDragEnabled } from './drag';
+import { calculateInitialVelocityX, calculateInitialVelocityY } from './equations';
+import { EnergyBreakdown, EnergyState, LaunchParameters, Vector2D } from './types';
+
+/**
+ * Mass of the projectile (kg). It is part of the air resistance settings,
+ * so drag and energy always use the same mass.
+ */
+export function getMass(params: LaunchParameters): number {
+  return params.drag?.mass ?? DEFAULT_DRAG.mass;
+}
+
+/**
+ * Kinetic energy KE = ½mv² (joules)
+ */
+export function calculateKineticEnergy(mass: number, velocity: Vector2D): number {
+  return 0.5 * mass * (velocity.x * velocity.x + velocity.y * velocity.y);
+}
+
+/**
+ * Gravitational potential energy PE = mgh above the ground (joules)
+ */
+export function calculatePotentialEnergy(mass: number, gravity: number, height: number): number {
+  return mass * gravity * height;
+}
+
+/**
+ * Kinetic, potential and total energy at one point of the flight
+ */
+export function calculateEnergy(
+  position: Vector2D,
+  velocity: Vector2D,
+  mass: number,
+  gravity: number
+): EnergyState {
+  const kinetic = calculateKineticEnergy(mass, velocity);
+  const potential = calculatePotentialEnergy(mass, gravity, position.y);
+  return { kinetic, potential, total: kinetic + potential };
+}
+
+/**
+ * Velocity at the moment of launch (m/s)
+ */
+export function calculateLaunchVelocity(params: LaunchParameters): Vector2D {
+  return {
+    x: calculateInitialVelocityX(params.initialVelocity, params.launchAngle),
+    y: calculateInitialVelocityY(params.initialVelocity, params.launchAngle),
+  };
+}
+
+/**
+ * Total energy at launch (joules)
+ */
+export function calculateLaunchEnergy(params: LaunchParameters): number {
+  const launchPosition = { x: 0, y: params.launchHeight };
+  return calculateEnergy(launchPosition, calculateLaunchVelocity(params), getMass(params), params.gravity).total;
+}
+
+/**
+ * Energy now compared with the energy at launch.
+ * Any drop in total energy is put down to air resistance when it is on;
+ * without it, `change` should stay at zero (up to numerical error).
+ */
+export function calculateEnergyBreakdown(
+  params: LaunchParameters,
+  position: Vector2D,
+  velocity: Vector2D
+): EnergyBreakdown {
+  const current = calculateEnergy(position, velocity, getMass(params), params.gravity);
+  const launchTotal = calculateLaunchEnergy(params);
+  const change = current.total - launchTotal;
+
+  return {
+    ...current,
+    launchTotal,
+    change,
+    lostToDrag: isDragEnabled(params.drag) ? Math.max(0, -change) : 0,
+  };
+}
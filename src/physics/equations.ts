@@ -28,19 +28,43 @@ export function calculateTimeToMaxHeight(
 }
 
 
+// vᵧ² + 2g(h₀ − h₁): under the square root when solving for the landing time
+export function calculateLandingDiscriminant(
+  initialVelocityY: number,
+  gravity: number,
+  launchHeight: number = 0,
+  landingHeight: number = 0
+): number {
+  return initialVelocityY * initialVelocityY + 2 * gravity * (launchHeight - landingHeight);
+}
+
+
 export function calculateTimeOfFlight(
   initialVelocityY: number,
-  gravity: number
+  gravity: number,
+  launchHeight: number = 0,
+  landingHeight: number = 0
 ): number {
-  return (2 * initialVelocityY) / gravity;
+  // Solve h₁ = h₀ + vᵧt − ½gt² for the later (descending) root.
+  // With h₀ = h₁ this reduces to T = 2vᵧ/g.
+  const discriminant = calculateLandingDiscriminant(initialVelocityY, gravity, launchHeight, landingHeight);
+
+  // Landing surface is above the peak: the projectile can't reach it,
+  // so the flight ends at the top of the arc.
+  if (discriminant <= 0) {
+    return initialVelocityY / gravity;
+  }
+
+  return (initialVelocityY + Math.sqrt(discriminant)) / gravity;
 }
 
 
 export function calculateMaxHeight(
   initialVelocityY: number,
-  gravity: number
+  gravity: number,
+  launchHeight: number = 0
 ): number {
-  return (initialVelocityY * initialVelocityY) / (2 * gravity);
+  return launchHeight + (initialVelocityY * initialVelocityY) / (2 * gravity);
 }
 
 
@@ -56,11 +80,12 @@ export function calculatePositionAtTime(
   initialVelocityX: number,
   initialVelocityY: number,
   gravity: number,
-  time: number
+  time: number,
+  launchHeight: number = 0
 ): Vector2D {
   return {
     x: initialVelocityX * time,
-    y: initialVelocityY * time - 0.5 * gravity * time * time,
+    y: launchHeight + initialVelocityY * time - 0.5 * gravity * time * time,
   };
 }
 
@@ -101,25 +126,60 @@ export function calculateAllResults(params: LaunchParameters): CalculatedResults
   );
   const timeOfFlight = calculateTimeOfFlight(
     initialVelocityY,
-    params.gravity
+    params.gravity,
+    params.launchHeight,
+    params.landingHeight
   );
 
   // Step 3: Calculate heights and distances
   const maxHeight = calculateMaxHeight(
     initialVelocityY,
-    params.gravity
+    params.gravity,
+    params.launchHeight
   );
   const horizontalRange = calculateHorizontalRange(
     initialVelocityX,
     timeOfFlight
   );
 
+  // Step 4: Vertical velocity when it lands
+  const finalVelocityY = calculateVelocityAtTime(
+    initialVelocityX,
+    initialVelocityY,
+    params.gravity,
+    timeOfFlight
+  ).y;
+
   return {
     initialVelocityX,
     initialVelocityY,
+    finalVelocityY,
     timeToMaxHeight,
     timeOfFlight,
     maxHeight,
     horizontalRange,
   };
-}
\ No newline at end of file
+}
+
+export function calculateTrajectoryPoints(
+  params: LaunchParameters,
+  pointCount: number = 60
+): Vector2D[] {
+  const results = calculateAllResults(params);
+  const points: Vector2D[] = [];
+
+  for (let i = 0; i <= pointCount; i++) {
+    const time = (results.timeOfFlight * i) / pointCount;
+    points.push(
+      calculatePositionAtTime(
+        results.initialVelocityX,
+        results.initialVelocityY,
+        params.gravity,
+        time,
+        params.launchHeight
+      )
+    );
+  }
+
+  return points;
+}
@@ -0,0 +1,177 @@
+/**
+ * experimentConfig.ts - Checking experiment set-ups read from outside the lab
+ *
+ * Links and saved session files both describe an experiment, and either
+ * may be old, hand-edited or damaged. Everything read goes through here:
+ * numbers are kept within LIMITS and anything missing or unrecognised
+ * falls back to the default, so the lab always gets a set-up it can run.
+ */
+
+import {
+  INTEGRATOR_TIME_STEPS,
+  LIMITS,
+  MAX_EXTRA_PROJECTILES,
+  PROJECTILE_COLORS,
+  STROBE_INTERVALS,
+} from './constants';
+import {
+  DragModel,
+  DragParameters,
+  ExperimentConfig,
+  ExtraProjectile,
+  IntegratorMethod,
+  IntegratorSettings,
+  LaunchParameters,
+  Predictions,
+  StrobeOptions,
+  Vector2D,
+  VectorOptions,
+} from './types';
+
+const INTEGRATOR_METHODS: IntegratorMethod[] = ['analytic', 'euler', 'semi-implicit-euler', 'verlet', 'rk4'];
+
+const DRAG_MODELS: DragModel[] = ['none', 'linear', 'quadratic'];
+
+const VECTOR_NAMES: (keyof VectorOptions)[] = ['velocity', 'components', 'acceleration', 'alongPath'];
+
+// Colours as the lab writes them (palettes and colour pickers): #rrggbb
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * A number (or numeric text) kept within `limits`; null when missing or not a number
+ */
+export function readLimitedNumber(value: unknown, limits: { min: number; max: number }): number | null {
+  if (typeof value === 'string' && value.trim() === '') return null;
+  if (typeof value !== 'number' && typeof value !== 'string') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number)) return null;
+  return Math.max(limits.min, Math.min(limits.max, number));
+}
+
+/**
+ * A #rrggbb colour; null for anything else, which may not be a colour at all
+ */
+export function readColor(value: unknown): string | null {
+  return typeof value === 'string' && HEX_COLOR.test(value) ? value : null;
+}
+
+function readDrag(value: unknown, defaults: DragParameters | undefined): DragParameters | undefined {
+  if (!isObject(value) || !defaults) return defaults;
+  const model = value.model as DragModel;
+  return {
+    model: DRAG_MODELS.includes(model) ? model : defaults.model,
+    mass: readLimitedNumber(value.mass, LIMITS.mass) ?? defaults.mass,
+    dragCoefficient: readLimitedNumber(value.dragCoefficient, LIMITS.dragCoefficient) ?? defaults.dragCoefficient,
+    crossSectionArea: readLimitedNumber(value.crossSectionArea, LIMITS.crossSectionArea) ?? defaults.crossSectionArea,
+    airDensity: readLimitedNumber(value.airDensity, LIMITS.airDensity) ?? defaults.airDensity,
+  };
+}
+
+/**
+ * Launch values within LIMITS, with `defaults` for any that are missing
+ */
+export function parseLaunchParameters(value: unknown, defaults: LaunchParameters): LaunchParameters {
+  if (!isObject(value)) return defaults;
+  const params: LaunchParameters = {
+    initialVelocity: readLimitedNumber(value.initialVelocity, LIMITS.velocity) ?? defaults.initialVelocity,
+    launchAngle: readLimitedNumber(value.launchAngle, LIMITS.angle) ?? defaults.launchAngle,
+    gravity: readLimitedNumber(value.gravity, LIMITS.gravity) ?? defaults.gravity,
+    launchHeight: readLimitedNumber(value.launchHeight, LIMITS.height) ?? defaults.launchHeight,
+    landingHeight: readLimitedNumber(value.landingHeight, LIMITS.height) ?? defaults.landingHeight,
+  };
+  const drag = readDrag(value.drag, defaults.drag);
+  return drag ? { ...params, drag } : params;
+}
+
+function readIntegrator(value: unknown, defaults: IntegratorSettings): IntegratorSettings {
+  if (!isObject(value)) return defaults;
+  const method = value.method as IntegratorMethod;
+  if (!INTEGRATOR_METHODS.includes(method)) return defaults;
+  const timeStep = Number(value.timeStep);
+  return { method, timeStep: INTEGRATOR_TIME_STEPS.includes(timeStep) ? timeStep : defaults.timeStep };
+}
+
+function readTarget(value: unknown, defaults: Vector2D | null): Vector2D | null {
+  if (value === null) return null;
+  if (!isObject(value)) return defaults;
+  const x = readLimitedNumber(value.x, LIMITS.distance);
+  const y = readLimitedNumber(value.y, LIMITS.height);
+  return x !== null && y !== null ? { x, y } : defaults;
+}
+
+/**
+ * Projectiles with a speed and an angle; a missing delay means launching together
+ */
+function readExtraProjectiles(value: unknown, defaults: ExtraProjectile[]): ExtraProjectile[] {
+  if (!Array.isArray(value)) return defaults;
+  return value
+    .filter((projectile): projectile is Record<string, unknown> => isObject(projectile))
+    .map((projectile) => ({
+      projectile,
+      speed: readLimitedNumber(projectile.initialVelocity, LIMITS.velocity),
+      angle: readLimitedNumber(projectile.launchAngle, LIMITS.angle),
+    }))
+    .filter(({ speed, angle }) => speed !== null && angle !== null)
+    .slice(0, MAX_EXTRA_PROJECTILES)
+    .map(({ projectile, speed, angle }, i) => ({
+      id: i + 1,
+      initialVelocity: speed as number,
+      launchAngle: angle as number,
+      startDelay: readLimitedNumber(projectile.startDelay, LIMITS.startDelay) ?? 0,
+      color: readColor(projectile.color) ?? PROJECTILE_COLORS[i % PROJECTILE_COLORS.length],
+    }));
+}
+
+function readVectors(value: unknown, defaults: VectorOptions): VectorOptions {
+  if (!isObject(value)) return defaults;
+  const vectors = { ...defaults };
+  VECTOR_NAMES.forEach((name) => {
+    if (typeof value[name] === 'boolean') vectors[name] = value[name] as boolean;
+  });
+  return vectors;
+}
+
+function readStrobe(value: unknown, defaults: StrobeOptions): StrobeOptions {
+  if (!isObject(value)) return defaults;
+  const interval = Number(value.interval);
+  if (!STROBE_INTERVALS.includes(interval)) return defaults;
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : defaults.enabled,
+    interval,
+    guides: typeof value.guides === 'boolean' ? value.guides : defaults.guides,
+  };
+}
+
+/**
+ * Predictions of zero or more; null when there are none or they don't make sense
+ */
+export function readPredictions(value: unknown): Predictions | null {
+  if (!isObject(value)) return null;
+  const values = [value.timeOfFlight, value.maxHeight, value.horizontalRange];
+  if (!values.every((entry) => typeof entry === 'number' && Number.isFinite(entry) && entry >= 0)) return null;
+  const [timeOfFlight, maxHeight, horizontalRange] = values as number[];
+  return { timeOfFlight, maxHeight, horizontalRange };
+}
+
+/**
+ * The experiment described by `value`, with `defaults` for everything
+ * it leaves out or gets wrong
+ */
+export function parseExperiment(value: unknown, defaults: ExperimentConfig): ExperimentConfig {
+  const experiment = isObject(value) ? value : {};
+  return {
+    params: parseLaunchParameters(experiment.params, defaults.params),
+    integrator: readIntegrator(experiment.integrator, defaults.integrator),
+    target: readTarget(experiment.target, defaults.target),
+    complementaryMode: typeof experiment.complementaryMode === 'boolean'
+      ? experiment.complementaryMode
+      : defaults.complementaryMode,
+    extraProjectiles: readExtraProjectiles(experiment.extraProjectiles, defaults.extraProjectiles),
+    vectors: readVectors(experiment.vectors, defaults.vectors),
+    strobe: readStrobe(experiment.strobe, defaults.strobe),
+    predictions: experiment.predictions === null ? null : readPredictions(experiment.predictions) ?? defaults.predictions,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * experimentUrl.ts - Experiment set-ups stored in the page's query string
+ *
+ * A link such as `?v=25&a=35&g=1.6` opens the lab with those values, so
+ * teachers can hand out a ready-made experiment and a refresh keeps the
+ * current one. Every value is checked when the link is read (see
+ * parseExperiment): numbers are kept within LIMITS and anything
+ * unrecognised falls back to the default.
+ *
+ * Predictions are only written when asked for, and then encoded so the
+ * numbers can't be read straight off the link.
+ */
+
+import { DEFAULT_DRAG } from './constants';
+import { isDragEnabled } from './drag';
+import { parseExperiment, readPredictions } from './experimentConfig';
+import { ExperimentConfig, Predictions, VectorOptions } from './types';
+
+// Query names of the vector arrows, listed together in `vec`
+const VECTOR_KEYS: Record<keyof VectorOptions, string> = {
+  velocity: 'v',
+  components: 'xy',
+  acceleration: 'g',
+  alongPath: 'path',
+};
+
+/**
+ * Shortest decimal form of a number, without floating-point noise
+ */
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+function encodePredictions(predictions: Predictions): string {
+  const text = [predictions.timeOfFlight, predictions.maxHeight, predictions.horizontalRange]
+    .map(formatNumber)
+    .join(',');
+  return btoa(text).replace(/=+$/, '');
+}
+
+function decodePredictions(encoded: string): Predictions | null {
+  let text: string;
+  try {
+    text = atob(encoded);
+  } catch {
+    return null;
+  }
+  const values = text.split(',').map(Number);
+  if (values.length !== 3) return null;
+  const [timeOfFlight, maxHeight, horizontalRange] = values;
+  return readPredictions({ timeOfFlight, maxHeight, horizontalRange });
+}
+
+/**
+ * Query string (without the `?`) describing an experiment. Launch values
+ * are always written; optional features only when they are switched on.
+ */
+export function experimentToQuery(experiment: ExperimentConfig): string {
+  const { params, integrator, target, complementaryMode, extraProjectiles, vectors, strobe, predictions } = experiment;
+  const query = new URLSearchParams();
+
+  query.set('v', formatNumber(params.initialVelocity));
+  query.set('a', formatNumber(params.launchAngle));
+  query.set('g', formatNumber(params.gravity));
+  query.set('h0', formatNumber(params.launchHeight));
+  query.set('h1', formatNumber(params.landingHeight));
+
+  if (params.drag && isDragEnabled(params.drag)) {
+    query.set('drag', params.drag.model);
+    query.set('m', formatNumber(params.drag.mass));
+    query.set('cd', formatNumber(params.drag.dragCoefficient));
+    query.set('area', formatNumber(params.drag.crossSectionArea));
+    query.set('rho', formatNumber(params.drag.airDensity));
+  } else if (params.drag && params.drag.mass !== DEFAULT_DRAG.mass) {
+    // Mass also sets the energy graph, with or without air resistance
+    query.set('m', formatNumber(params.drag.mass));
+  }
+
+  if (integrator.method !== 'analytic') {
+    query.set('method', integrator.method);
+    query.set('dt', formatNumber(integrator.timeStep));
+  }
+
+  if (target) {
+    query.set('tx', formatNumber(target.x));
+    query.set('ty', formatNumber(target.y));
+  }
+
+  if (complementaryMode) query.set('comp', '1');
+
+  // Each extra projectile as speed:angle:delay
+  if (extraProjectiles.length > 0) {
+    query.set('p', extraProjectiles
+      .map((projectile) => [projectile.initialVelocity, projectile.launchAngle, projectile.startDelay].map(formatNumber).join(':'))
+      .join(','));
+  }
+
+  const shownVectors = (Object.keys(VECTOR_KEYS) as (keyof VectorOptions)[]).filter((key) => vectors[key]);
+  if (shownVectors.length > 0) query.set('vec', shownVectors.map((key) => VECTOR_KEYS[key]).join(','));
+
+  if (strobe.enabled) {
+    query.set('strobe', formatNumber(strobe.interval));
+    if (strobe.guides) query.set('guides', '1');
+  }
+
+  if (predictions) query.set('pred', encodePredictions(predictions));
+
+  // ':' and ',' are allowed in a query string; leaving them unescaped keeps links readable
+  return query.toString().replace(/%3A/gi, ':').replace(/%2C/gi, ',');
+}
+
+/**
+ * The experiment described by a query string, with `defaults` for
+ * everything it leaves out or gets wrong
+ */
+export function experimentFromQuery(search: string, defaults: ExperimentConfig): ExperimentConfig {
+  const query = new URLSearchParams(search);
+  const read = (name: string) => query.get(name) ?? undefined;
+
+  // The query's values laid out as an experiment, for parseExperiment to check
+  const hasDrag = query.has('drag') || query.has('m');
+  const projectileText = query.get('p');
+  const vectorText = query.get('vec');
+  const predictionText = query.get('pred');
+  const linked = {
+    params: {
+      initialVelocity: read('v'),
+      launchAngle: read('a'),
+      gravity: read('g'),
+      launchHeight: read('h0'),
+      landingHeight: read('h1'),
+      drag: hasDrag
+        ? { model: read('drag'), mass: read('m'), dragCoefficient: read('cd'), crossSectionArea: read('area'), airDensity: read('rho') }
+        : undefined,
+    },
+    integrator: query.has('method') ? { method: read('method'), timeStep: read('dt') } : undefined,
+    target: query.has('tx') || query.has('ty') ? { x: read('tx'), y: read('ty') } : undefined,
+    complementaryMode: query.has('comp') ? query.get('comp') === '1' : undefined,
+    // Each extra projectile as speed:angle:delay
+    extraProjectiles: projectileText === null
+      ? undefined
+      : projectileText.split(',').map((entry) => {
+        const [initialVelocity, launchAngle, startDelay] = entry.split(':');
+        return { initialVelocity, launchAngle, startDelay };
+      }),
+    vectors: vectorText === null
+      ? undefined
+      : Object.fromEntries(
+        (Object.keys(VECTOR_KEYS) as (keyof VectorOptions)[]).map((key) => [key, vectorText.split(',').includes(VECTOR_KEYS[key])])
+      ),
+    strobe: query.has('strobe')
+      ? { enabled: true, interval: read('strobe'), guides: query.get('guides') === '1' }
+      : undefined,
+    predictions: predictionText ? decodePredictions(predictionText) ?? undefined : undefined,
+  };
+
+  return parseExperiment(linked, defaults);
+}
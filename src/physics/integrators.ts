@@ -0,0 +1,368 @@
+/**
+ * integrators.ts - Numerical methods for stepping the projectile forward
+ *
+ * Instead of plugging t into a formula, a numerical method starts at the
+ * launch point and repeatedly takes small steps of Δt:
+ *   new velocity ≈ old velocity + acceleration × Δt
+ *   new position ≈ old position + velocity × Δt
+ * The methods differ in which velocity and acceleration they use for
+ * each step, which changes how quickly their error builds up.
+ */
+
+import { DRAG_TIME_STEP } from './constants';
+import { calculateAcceleration, isDragEnabled } from './drag';
+import {
+  calculateAllResults,
+  calculateInitialVelocityX,
+  calculateInitialVelocityY,
+  calculatePositionAtTime,
+  calculateVelocityAtTime,
+} from './equations';
+import {
+  CalculatedResults,
+  IntegratorError,
+  IntegratorMethod,
+  LaunchParameters,
+  MotionSample,
+  ProjectileState,
+  TrajectoryData,
+  Vector2D,
+} from './types';
+
+export type NumericalMethod = Exclude<IntegratorMethod, 'analytic'>;
+
+export type AccelerationFunction = (velocity: Vector2D) => Vector2D;
+
+export const NUMERICAL_METHODS: NumericalMethod[] = ['euler', 'semi-implicit-euler', 'verlet', 'rk4'];
+
+// Safety limit so a bad input can never freeze the page
+const MAX_STEPS = 200000;
+
+/**
+ * Advance the projectile by one time step using the chosen method
+ */
+export function stepProjectile(
+  state: ProjectileState,
+  dt: number,
+  acceleration: AccelerationFunction,
+  method: NumericalMethod
+): ProjectileState {
+  const { position: p, velocity: v } = state;
+  const a = acceleration(v);
+
+  let position: Vector2D;
+  let velocity: Vector2D;
+
+  switch (method) {
+    case 'euler':
+      // Both updates use the values from the start of the step
+      position = { x: p.x + v.x * dt, y: p.y + v.y * dt };
+      velocity = { x: v.x + a.x * dt, y: v.y + a.y * dt };
+      break;
+
+    case 'semi-implicit-euler':
+      // Update velocity first, then move with the new velocity
+      velocity = { x: v.x + a.x * dt, y: v.y + a.y * dt };
+      position = { x: p.x + velocity.x * dt, y: p.y + velocity.y * dt };
+      break;
+
+    case 'verlet': {
+      // Move using the current acceleration, then average old and new acceleration
+      position = {
+        x: p.x + v.x * dt + 0.5 * a.x * dt * dt,
+        y: p.y + v.y * dt + 0.5 * a.y * dt * dt,
+      };
+      const aNext = acceleration({ x: v.x + a.x * dt, y: v.y + a.y * dt });
+      velocity = {
+        x: v.x + 0.5 * (a.x + aNext.x) * dt,
+        y: v.y + 0.5 * (a.y + aNext.y) * dt,
+      };
+      break;
+    }
+
+    case 'rk4': {
+      // Sample the slope four times across the step and take a weighted average
+      const v2 = { x: v.x + (a.x * dt) / 2, y: v.y + (a.y * dt) / 2 };
+      const a2 = acceleration(v2);
+      const v3 = { x: v.x + (a2.x * dt) / 2, y: v.y + (a2.y * dt) / 2 };
+      const a3 = acceleration(v3);
+      const v4 = { x: v.x + a3.x * dt, y: v.y + a3.y * dt };
+      const a4 = acceleration(v4);
+
+      position = {
+        x: p.x + (dt / 6) * (v.x + 2 * v2.x + 2 * v3.x + v4.x),
+        y: p.y + (dt / 6) * (v.y + 2 * v2.y + 2 * v3.y + v4.y),
+      };
+      velocity = {
+        x: v.x + (dt / 6) * (a.x + 2 * a2.x + 2 * a3.x + a4.x),
+        y: v.y + (dt / 6) * (a.y + 2 * a2.y + 2 * a3.y + a4.y),
+      };
+      break;
+    }
+  }
+
+  return {
+    position,
+    velocity,
+    time: state.time + dt,
+    isActive: state.isActive,
+  };
+}
+
+/**
+ * Solve the whole flight numerically, from launch until the projectile
+ * comes back down to the landing height.
+ */
+export function simulateTrajectory(
+  params: LaunchParameters,
+  method: NumericalMethod = 'rk4',
+  timeStep: number = DRAG_TIME_STEP
+): TrajectoryData {
+  const acceleration: AccelerationFunction = (velocity) => calculateAcceleration(velocity, params);
+
+  let state: ProjectileState = {
+    position: { x: 0, y: params.launchHeight },
+    velocity: {
+      x: calculateInitialVelocityX(params.initialVelocity, params.launchAngle),
+      y: calculateInitialVelocityY(params.initialVelocity, params.launchAngle),
+    },
+    time: 0,
+    isActive: true,
+  };
+
+  const trajectory: TrajectoryData = {
+    positions: [state.position],
+    velocities: [state.velocity],
+    times: [state.time],
+  };
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const next = stepProjectile(state, timeStep, acceleration, method);
+
+    // Landing surface is above the peak: stop at the top of the arc
+    if (next.velocity.y <= 0 && next.position.y < params.landingHeight && state.velocity.y > 0) {
+      trajectory.positions.push(next.position);
+      trajectory.velocities.push(next.velocity);
+      trajectory.times.push(next.time);
+      break;
+    }
+
+    // Crossed the landing height on the way down: interpolate the exact touchdown
+    if (next.velocity.y < 0 && next.position.y <= params.landingHeight) {
+      const fraction =
+        (state.position.y - params.landingHeight) / (state.position.y - next.position.y);
+      trajectory.positions.push({
+        x: state.position.x + fraction * (next.position.x - state.position.x),
+        y: params.landingHeight,
+      });
+      trajectory.velocities.push({
+        x: state.velocity.x + fraction * (next.velocity.x - state.velocity.x),
+        y: state.velocity.y + fraction * (next.velocity.y - state.velocity.y),
+      });
+      trajectory.times.push(state.time + fraction * timeStep);
+      break;
+    }
+
+    state = next;
+    trajectory.positions.push(state.position);
+    trajectory.velocities.push(state.velocity);
+    trajectory.times.push(state.time);
+  }
+
+  return trajectory;
+}
+
+/**
+ * Read the key results (flight time, peak, range) off a solved trajectory
+ */
+export function calculateResultsFromTrajectory(
+  params: LaunchParameters,
+  trajectory: TrajectoryData
+): CalculatedResults {
+  let peakIndex = 0;
+  trajectory.positions.forEach((position, i) => {
+    if (position.y > trajectory.positions[peakIndex].y) peakIndex = i;
+  });
+
+  const last = trajectory.times.length - 1;
+
+  return {
+    initialVelocityX: calculateInitialVelocityX(params.initialVelocity, params.launchAngle),
+    initialVelocityY: calculateInitialVelocityY(params.initialVelocity, params.launchAngle),
+    finalVelocityY: trajectory.velocities[last].y,
+    timeToMaxHeight: trajectory.times[peakIndex],
+    timeOfFlight: trajectory.times[last],
+    maxHeight: trajectory.positions[peakIndex].y,
+    horizontalRange: trajectory.positions[last].x,
+  };
+}
+
+/**
+ * Position and velocity at any time, interpolated between solved samples
+ */
+export function interpolateTrajectory(
+  trajectory: TrajectoryData,
+  time: number
+): MotionSample {
+  const { times, positions, velocities } = trajectory;
+  const last = times.length - 1;
+
+  if (time <= times[0]) return { position: positions[0], velocity: velocities[0] };
+  if (time >= times[last]) return { position: positions[last], velocity: velocities[last] };
+
+  // Binary search for the samples either side of `time`
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= time) low = mid;
+    else high = mid;
+  }
+
+  const fraction = (time - times[low]) / (times[high] - times[low]);
+  const lerp = (a: number, b: number) => a + fraction * (b - a);
+
+  return {
+    position: {
+      x: lerp(positions[low].x, positions[high].x),
+      y: lerp(positions[low].y, positions[high].y),
+    },
+    velocity: {
+      x: lerp(velocities[low].x, velocities[high].x),
+      y: lerp(velocities[low].y, velocities[high].y),
+    },
+  };
+}
+
+/**
+ * The part of a recorded trajectory up to `time`, ending exactly there,
+ * e.g. to redraw the flight as it was at that moment
+ */
+export function truncateTrajectory(trajectory: TrajectoryData, time: number): TrajectoryData {
+  const { times } = trajectory;
+  if (times.length === 0 || time < times[0]) return { positions: [], velocities: [], times: [] };
+
+  const count = times.filter((t) => t <= time).length;
+  const truncated: TrajectoryData = {
+    positions: trajectory.positions.slice(0, count),
+    velocities: trajectory.velocities.slice(0, count),
+    times: times.slice(0, count),
+  };
+  if (times[count - 1] < time && count < times.length) {
+    const { position, velocity } = interpolateTrajectory(trajectory, time);
+    truncated.positions.push(position);
+    truncated.velocities.push(velocity);
+    truncated.times.push(time);
+  }
+  return truncated;
+}
+
+/**
+ * Sample a motion at regular intervals from launch up to `endTime`
+ * (plus `endTime` itself), e.g. to rebuild the path drawn so far
+ */
+export function sampleMotion(
+  getMotionAtTime: (time: number) => MotionSample,
+  endTime: number,
+  timeStep: number
+): TrajectoryData {
+  const trajectory: TrajectoryData = { positions: [], velocities: [], times: [] };
+  const addSample = (time: number) => {
+    const { position, velocity } = getMotionAtTime(time);
+    trajectory.positions.push(position);
+    trajectory.velocities.push(velocity);
+    trajectory.times.push(time);
+  };
+
+  const stepCount = Math.floor(endTime / timeStep);
+  for (let i = 0; i <= stepCount; i++) {
+    addSample(i * timeStep);
+  }
+  if (endTime > stepCount * timeStep) {
+    addSample(endTime);
+  }
+
+  return trajectory;
+}
+
+/**
+ * The most accurate answer available, used to measure a method's error:
+ * the exact equations for an ideal projectile, or a very fine RK4 solution with drag.
+ */
+export function createReferenceMotion(params: LaunchParameters): {
+  results: CalculatedResults;
+  getMotionAtTime: (time: number) => MotionSample;
+} {
+  if (isDragEnabled(params.drag)) {
+    const trajectory = simulateTrajectory(params);
+    return {
+      results: calculateResultsFromTrajectory(params, trajectory),
+      getMotionAtTime: (time) => interpolateTrajectory(trajectory, time),
+    };
+  }
+
+  const results = calculateAllResults(params);
+  return {
+    results,
+    getMotionAtTime: (time) => ({
+      position: calculatePositionAtTime(
+        results.initialVelocityX,
+        results.initialVelocityY,
+        params.gravity,
+        time,
+        params.launchHeight
+      ),
+      velocity: calculateVelocityAtTime(
+        results.initialVelocityX,
+        results.initialVelocityY,
+        params.gravity,
+        time
+      ),
+    }),
+  };
+}
+
+/**
+ * Accumulated error of one method at one step size
+ */
+export function calculateIntegratorError(
+  params: LaunchParameters,
+  method: NumericalMethod,
+  timeStep: number,
+  reference = createReferenceMotion(params)
+): IntegratorError {
+  const trajectory = simulateTrajectory(params, method, timeStep);
+
+  const last = trajectory.positions.length - 1;
+
+  // The touchdown point is interpolated rather than stepped, so it's
+  // covered by the range error instead
+  let maxPositionError = 0;
+  for (let i = 0; i < last; i++) {
+    const expected = reference.getMotionAtTime(trajectory.times[i]).position;
+    const actual = trajectory.positions[i];
+    const error = Math.hypot(actual.x - expected.x, actual.y - expected.y);
+    if (error > maxPositionError) maxPositionError = error;
+  }
+
+  return {
+    method,
+    timeStep,
+    maxPositionError,
+    rangeError: trajectory.positions[last].x - reference.results.horizontalRange,
+  };
+}
+
+/**
+ * Error table: every numerical method at every step size
+ */
+export function compareIntegrators(
+  params: LaunchParameters,
+  timeSteps: number[]
+): IntegratorError[] {
+  const reference = createReferenceMotion(params);
+
+  return NUMERICAL_METHODS.flatMap((method) =>
+    timeSteps.map((timeStep) => calculateIntegratorError(params, method, timeStep, reference))
+  );
+}
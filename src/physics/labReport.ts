@@ -0,0 +1,189 @@
+/**
+ * labReport.ts - The lab write-up as Markdown or a printable page
+ *
+ * The report follows the page: aim, set-up, predictions, results,
+ * pictures of the simulation and graphs, then the student's conclusion.
+ * Both formats are written from the same tables so they always agree.
+ */
+
+import { getAccuracyLabel, hasPrediction } from './comparison';
+import { DECIMAL_PLACES, INTEGRATOR_LABELS, LAB_AIM, REPORT_TITLE } from './constants';
+import { describeParameters } from './dataExport';
+import { ComparisonResult, LabReportContent, Predictions } from './types';
+
+interface ReportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const NOT_RUN = 'The simulation has not been run yet, so there are no results to compare.';
+
+const NO_CONCLUSION = 'No conclusion written.';
+
+const formatValue = (value: number, unit: string) => `${value.toFixed(DECIMAL_PLACES)} ${unit}`;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'long', timeStyle: 'short' });
+
+/**
+ * Launch values, with the method used to step through time
+ */
+function parameterTable(content: LabReportContent): ReportTable {
+  const { method, timeStep } = content.integrator;
+  const methodLabel = method === 'analytic'
+    ? INTEGRATOR_LABELS[method]
+    : `${INTEGRATOR_LABELS[method]}, Δt = ${timeStep} s`;
+  return {
+    headers: ['Quantity', 'Value'],
+    rows: [...describeParameters(content.params), ['Method', methodLabel]],
+  };
+}
+
+function predictionTable(predictions: Predictions): ReportTable {
+  const predicted = (value: number, unit: string) => (value > 0 ? formatValue(value, unit) : '—');
+  return {
+    headers: ['Quantity', 'Predicted'],
+    rows: [
+      ['Time of Flight', predicted(predictions.timeOfFlight, 's')],
+      ['Maximum Height', predicted(predictions.maxHeight, 'm')],
+      ['Horizontal Range', predicted(predictions.horizontalRange, 'm')],
+    ],
+  };
+}
+
+/**
+ * The results table as shown in the Observe section
+ */
+function comparisonTable(comparisons: ComparisonResult[]): ReportTable {
+  return {
+    headers: ['Quantity', 'Predicted', 'Actual', 'Error', 'Rating'],
+    rows: comparisons.map((comparison) => {
+      const predicted = hasPrediction(comparison);
+      return [
+        comparison.label,
+        predicted ? formatValue(comparison.predicted, comparison.unit) : '—',
+        formatValue(comparison.actual, comparison.unit),
+        predicted ? `${comparison.percentError.toFixed(1)}%` : '—',
+        predicted ? getAccuracyLabel(comparison.percentError) : 'No prediction',
+      ];
+    }),
+  };
+}
+
+const markdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+function markdownTable({ headers, rows }: ReportTable): string {
+  return [
+    `| ${headers.map(markdownCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(markdownCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * The report as a Markdown document. Pictures are embedded as data
+ * URLs, so the file stands on its own.
+ */
+export function reportToMarkdown(content: LabReportContent): string {
+  const list = (items: string[]) => items.map((item) => `- ${item}`).join('\n');
+  const sections = [
+    `# ${REPORT_TITLE}`,
+    `_${formatDate(content.createdAt)}_`,
+    '## Aim',
+    LAB_AIM.statement,
+    `**Key concepts**\n\n${list(LAB_AIM.keyConcepts)}`,
+    `**Assumptions**\n\n${list(LAB_AIM.assumptions)}`,
+    '## Parameters',
+    markdownTable(parameterTable(content)),
+    '## Predictions',
+    markdownTable(predictionTable(content.predictions)),
+    '## Results',
+    content.comparisons ? markdownTable(comparisonTable(content.comparisons)) : `_${NOT_RUN}_`,
+  ];
+
+  if (content.snapshots.length > 0) {
+    sections.push('## Observations');
+    content.snapshots.forEach((snapshot) => {
+      sections.push(`### ${snapshot.title}`, `![${snapshot.title}](${snapshot.dataUrl})`);
+    });
+  }
+
+  sections.push('## Conclusion', content.conclusion.trim() || `_${NO_CONCLUSION}_`);
+  return sections.join('\n\n') + '\n';
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function htmlTable({ headers, rows }: ReportTable): string {
+  const head = headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('');
+  const body = rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+// Plain black-on-white for paper; figures and tables are never split across pages
+const PRINT_STYLES = `
+  @page { margin: 18mm; }
+  body { font-family: system-ui, sans-serif; color: #111; line-height: 1.5; max-width: 760px; margin: 24px auto; padding: 0 16px; }
+  h1 { font-size: 1.6rem; margin-bottom: 0; }
+  h2 { font-size: 1.2rem; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 28px; break-after: avoid; }
+  .date { color: #555; margin-top: 4px; }
+  table { border-collapse: collapse; width: 100%; break-inside: avoid; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+  th { background: #f3f3f3; }
+  figure { margin: 16px 0; break-inside: avoid; }
+  figure img { max-width: 100%; border: 1px solid #ccc; }
+  figcaption { font-size: 0.85rem; color: #555; }
+  .conclusion { white-space: pre-wrap; }
+  .empty { color: #555; font-style: italic; }
+`;
+
+/**
+ * The report as a stand-alone HTML page laid out for printing
+ * (the browser's print dialog saves it as a PDF)
+ */
+export function reportToHtml(content: LabReportContent): string {
+  const list = (items: string[]) => `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+  const figures = content.snapshots.map((snapshot) => `
+    <figure>
+      <img src="${snapshot.dataUrl}" alt="${escapeHtml(snapshot.title)}">
+      <figcaption>${escapeHtml(snapshot.title)}</figcaption>
+    </figure>`).join('');
+  const conclusion = content.conclusion.trim();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(REPORT_TITLE)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(REPORT_TITLE)}</h1>
+  <p class="date">${escapeHtml(formatDate(content.createdAt))}</p>
+
+  <h2>Aim</h2>
+  <p>${escapeHtml(LAB_AIM.statement)}</p>
+  <p><strong>Key concepts</strong></p>
+  ${list(LAB_AIM.keyConcepts)}
+  <p><strong>Assumptions</strong></p>
+  ${list(LAB_AIM.assumptions)}
+
+  <h2>Parameters</h2>
+  ${htmlTable(parameterTable(content))}
+
+  <h2>Predictions</h2>
+  ${htmlTable(predictionTable(content.predictions))}
+
+  <h2>Results</h2>
+  ${content.comparisons ? htmlTable(comparisonTable(content.comparisons)) : `<p class="empty">${NOT_RUN}</p>`}
+  ${figures ? `<h2>Observations</h2>${figures}` : ''}
+
+  <h2>Conclusion</h2>
+  ${conclusion ? `<p class="conclusion">${escapeHtml(conclusion)}</p>` : `<p class="empty">${NO_CONCLUSION}</p>`}
+</body>
+</html>
+`;
+}
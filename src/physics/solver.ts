@@ -0,0 +1,110 @@
+/**
+ * solver.ts - Work backwards from a target to the launch parameters
+ *
+ * The forward equations go from (v₀, θ) to where the projectile lands.
+ * Here we fix either the speed or the angle and solve the trajectory
+ * equation for the other, so the path passes through a chosen point:
+ *
+ *   y = x tan(θ) − g x² / (2 v₀² cos²(θ))
+ *
+ * Air resistance is ignored, as in the kinematic equations.
+ */
+
+import { DEG_TO_RAD, LIMITS, RAD_TO_DEG } from './constants';
+import { TargetSolution, Vector2D } from './types';
+
+function isWithinLimits(initialVelocity: number, launchAngle: number): boolean {
+  return (
+    initialVelocity >= LIMITS.velocity.min &&
+    initialVelocity <= LIMITS.velocity.max &&
+    launchAngle >= LIMITS.angle.min &&
+    launchAngle <= LIMITS.angle.max
+  );
+}
+
+/**
+ * Launch angle(s) that hit the target at a fixed speed.
+ * Returns the low and high arcs, one angle if the target is only just
+ * reachable, or an empty list if it is out of range.
+ */
+export function solveForAngle(
+  initialVelocity: number,
+  target: Vector2D,
+  gravity: number,
+  launchHeight: number = 0
+): TargetSolution[] {
+  const dx = target.x;
+  const dy = target.y - launchHeight;
+  const v2 = initialVelocity * initialVelocity;
+
+  if (dx <= 0 || initialVelocity <= 0) return [];
+
+  // tan(θ) = [v² ± √(v⁴ − g(gx² + 2yv²))] / (gx)
+  const discriminant = v2 * v2 - gravity * (gravity * dx * dx + 2 * dy * v2);
+  if (discriminant < 0) return [];
+
+  const root = Math.sqrt(discriminant);
+  const roots = root === 0
+    ? [{ tan: v2 / (gravity * dx), arc: 'only' as const }]
+    : [
+      { tan: (v2 - root) / (gravity * dx), arc: 'low' as const },
+      { tan: (v2 + root) / (gravity * dx), arc: 'high' as const },
+    ];
+
+  return roots.map(({ tan, arc }) => {
+    const launchAngle = Math.atan(tan) * RAD_TO_DEG;
+    return {
+      initialVelocity,
+      launchAngle,
+      arc,
+      timeToTarget: dx / (initialVelocity * Math.cos(launchAngle * DEG_TO_RAD)),
+      withinLimits: isWithinLimits(initialVelocity, launchAngle),
+    };
+  });
+}
+
+/**
+ * Launch speed that hits the target at a fixed angle.
+ * Returns an empty list if no speed works (the target is above the
+ * straight line the launcher points along).
+ */
+export function solveForSpeed(
+  launchAngle: number,
+  target: Vector2D,
+  gravity: number,
+  launchHeight: number = 0
+): TargetSolution[] {
+  const dx = target.x;
+  const dy = target.y - launchHeight;
+  const angleInRadians = launchAngle * DEG_TO_RAD;
+  const cos = Math.cos(angleInRadians);
+
+  if (dx <= 0 || cos <= 0) return [];
+
+  // v₀² = g x² / (2 cos²(θ) (x tan(θ) − y))
+  const denominator = 2 * cos * cos * (dx * Math.tan(angleInRadians) - dy);
+  if (denominator <= 0) return [];
+
+  const initialVelocity = Math.sqrt((gravity * dx * dx) / denominator);
+
+  return [{
+    initialVelocity,
+    launchAngle,
+    arc: 'only',
+    timeToTarget: dx / (initialVelocity * cos),
+    withinLimits: isWithinLimits(initialVelocity, launchAngle),
+  }];
+}
+
+/**
+ * Slowest launch that can reach the target at all: v₀² = g(y + √(x² + y²))
+ */
+export function calculateMinimumSpeed(
+  target: Vector2D,
+  gravity: number,
+  launchHeight: number = 0
+): number {
+  const dx = target.x;
+  const dy = target.y - launchHeight;
+  return Math.sqrt(gravity * (dy + Math.sqrt(dx * dx + dy * dy)));
+}
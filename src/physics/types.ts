@@ -17,6 +17,25 @@ export interface Vector2D {
   y: number; // Vertical component (meters or m/s)
 }
 
+/**
+ * Which air resistance model to apply.
+ * - none: ideal projectile (the classic parabola)
+ * - linear: drag force proportional to velocity (F = −bv)
+ * - quadratic: drag force proportional to velocity squared (F = −½ρC_dA|v|v)
+ */
+export type DragModel = 'none' | 'linear' | 'quadratic';
+
+/**
+ * Properties of the projectile and the air used by the drag model.
+ */
+export interface DragParameters {
+  model: DragModel;
+  mass: number;               // Mass of the projectile (kg)
+  dragCoefficient: number;    // Drag coefficient C_d (dimensionless, ~0.47 for a sphere)
+  crossSectionArea: number;   // Area facing the airflow (m²)
+  airDensity: number;         // Density of the air (kg/m³)
+}
+
 /**
  * Initial conditions set by the student before launching.
  * These determine the entire trajectory of the projectile.
@@ -25,6 +44,9 @@ export interface LaunchParameters {
   initialVelocity: number;    // Speed at launch (m/s)
   launchAngle: number;        // Angle above horizontal (degrees)
   gravity: number;            // Gravitational acceleration (m/s²)
+  launchHeight: number;       // Height of the launch point above the ground (meters)
+  landingHeight: number;      // Height of the surface it lands on (meters)
+  drag?: DragParameters;      // Air resistance (ideal projectile when omitted)
 }
 
 /**
@@ -45,13 +67,14 @@ export interface CalculatedResults {
   // Velocity components at launch
   initialVelocityX: number;   // Horizontal velocity component (m/s)
   initialVelocityY: number;   // Vertical velocity component (m/s)
+  finalVelocityY: number;     // Vertical velocity component at landing (m/s)
   
   // Key time values
   timeToMaxHeight: number;    // Time to reach peak (seconds)
   timeOfFlight: number;       // Total flight time (seconds)
   
   // Key distances
-  maxHeight: number;          // Maximum height (meters)
+  maxHeight: number;          // Maximum height above the ground (meters)
   horizontalRange: number;    // Total horizontal distance (meters)
 }
 
@@ -66,6 +89,43 @@ export interface ProjectileState {
   isActive: boolean;          // Is the simulation running?
 }
 
+/**
+ * Position and velocity at a single instant.
+ * Used when looking up the motion at an arbitrary time.
+ */
+export interface MotionSample {
+  position: Vector2D;         // Position (meters)
+  velocity: Vector2D;         // Velocity (m/s)
+}
+
+/**
+ * How the simulation advances the projectile through time.
+ * - analytic: exact kinematic equations (the reference)
+ * - euler: position then velocity, both from the old values
+ * - semi-implicit-euler: velocity first, then position from the new velocity
+ * - verlet: velocity Verlet, averaging old and new acceleration
+ * - rk4: 4th-order Runge-Kutta, four samples of the slope per step
+ */
+export type IntegratorMethod = 'analytic' | 'euler' | 'semi-implicit-euler' | 'verlet' | 'rk4';
+
+/**
+ * Integrator choice and the time step it uses.
+ */
+export interface IntegratorSettings {
+  method: IntegratorMethod;
+  timeStep: number;           // Integration step Δt (seconds)
+}
+
+/**
+ * How far a numerical method drifts from the reference solution.
+ */
+export interface IntegratorError {
+  method: IntegratorMethod;
+  timeStep: number;           // Δt used (seconds)
+  maxPositionError: number;   // Largest distance from the reference path (meters)
+  rangeError: number;         // Landing distance minus the reference range (meters)
+}
+
 /**
  * Comparison between predicted and actual values.
  * Shows students how close their predictions were.
@@ -98,6 +158,24 @@ export interface TrajectoryData {
   times: number[];            // Time stamps
 }
 
+/**
+ * Which launch parameter the target solver works out.
+ * - angle: speed is fixed, find the launch angle(s)
+ * - speed: angle is fixed, find the launch speed
+ */
+export type SolveFor = 'angle' | 'speed';
+
+/**
+ * One way of launching that passes through the target.
+ */
+export interface TargetSolution {
+  initialVelocity: number;    // Launch speed (m/s)
+  launchAngle: number;        // Launch angle (degrees)
+  arc: 'low' | 'high' | 'only'; // Which of the possible paths this is
+  timeToTarget: number;       // Time to reach the target (seconds)
+  withinLimits: boolean;      // Can it be set with the lab's controls?
+}
+
 /**
  * Highlight points on the trajectory.
  * Used to mark important moments in the motion.
@@ -105,5 +183,248 @@ export interface TrajectoryData {
 export interface HighlightPoint {
   position: Vector2D;
   label: string;
-  type: 'launch' | 'peak' | 'landing';
-}
\ No newline at end of file
+  type: 'launch' | 'peak' | 'landing' | 'target' | 'impact';
+  radius?: number;            // Size of the zone around the point (meters)
+}
+
+/**
+ * A vertical wall standing on the ground, blocking low shots.
+ */
+export interface Wall {
+  x: number;                  // Distance from the launch point (meters)
+  height: number;             // Height of the wall (meters)
+}
+
+/**
+ * Options chosen before starting a target-practice challenge.
+ */
+export interface ChallengeSettings {
+  rounds: number;             // Number of targets in the challenge
+  elevatedTargets: boolean;   // Allow targets above the ground
+  walls: boolean;             // Put a wall in front of the target
+}
+
+/**
+ * A challenge target and anything in the way.
+ */
+export interface ChallengeTarget {
+  position: Vector2D;         // Centre of the target (meters)
+  radius: number;             // Counts as a hit within this distance (meters)
+  wall: Wall | null;          // Obstacle between launcher and target
+}
+
+/**
+ * One shot in a challenge, kept so the teacher can review it later.
+ */
+export interface ChallengeAttempt {
+  round: number;              // Which target (1, 2, 3...)
+  initialVelocity: number;    // Speed used (m/s)
+  launchAngle: number;        // Angle used (degrees)
+  target: Vector2D;           // Where the target was (meters)
+  missDistance: number;       // Closest the projectile came to the target (meters)
+  impactPoint: Vector2D;      // Where it landed or hit the wall (meters)
+  hit: boolean;               // Within the target radius?
+  blockedByWall: boolean;     // Stopped by the wall first?
+  timestamp: number;          // When the shot was taken (ms since epoch)
+}
+
+/**
+ * A finished launch kept on screen for comparison with later runs.
+ */
+export interface SavedRun {
+  id: number;                 // Run number (1, 2, 3...)
+  label: string;              // Short description shown on the canvas and graphs
+  params: LaunchParameters;   // Launch that produced this run
+  results: CalculatedResults; // Results of that launch
+  trajectory: TrajectoryData; // Recorded path
+  color: string;              // Colour of the ghost path
+  visible: boolean;           // Drawn on the canvas and graphs?
+  pinned: boolean;            // Kept when the history is cleared
+}
+
+/**
+ * An extra projectile launched at the same moment as the main one.
+ */
+export interface CompanionLaunch {
+  params: LaunchParameters;   // Its own launch parameters
+  label: string;              // Name shown next to it on the canvas
+  color: string;              // Colour of its ball and path
+  startDelay?: number;        // Seconds after the main launch (default 0)
+}
+
+/**
+ * A companion projectile as it is right now in the simulation.
+ */
+export interface CompanionProjectile extends CompanionLaunch {
+  state: ProjectileState;     // Current position and velocity
+  trajectory: TrajectoryData; // Path flown so far (times from the main launch)
+  results: CalculatedResults; // Its own flight time, peak and range
+}
+
+/**
+ * A launch and its complementary angle (90° − θ) compared side by side.
+ */
+export interface ComplementaryComparison {
+  low: { launchAngle: number; results: CalculatedResults };  // Shallower launch
+  high: { launchAngle: number; results: CalculatedResults }; // Steeper launch
+  rangeDifference: number;    // High range − low range (meters)
+  isSymmetric: boolean;       // Level ground and no drag, so the ranges must match
+}
+
+/**
+ * An extra projectile set up by the student. It shares gravity, heights
+ * and air resistance with the main launch but has its own speed and angle.
+ */
+export interface ExtraProjectile {
+  id: number;
+  initialVelocity: number;    // Launch speed (m/s)
+  launchAngle: number;        // Launch angle (degrees)
+  startDelay: number;         // Seconds after the main launch
+  color: string;              // Colour of its ball, path and graph lines
+}
+
+/**
+ * Which vector arrows are drawn on the canvas.
+ */
+export interface VectorOptions {
+  velocity: boolean;          // Velocity vector v
+  components: boolean;        // Its horizontal and vertical components vₓ, vᵧ
+  acceleration: boolean;      // Gravitational acceleration g
+  alongPath: boolean;         // Repeat the arrows at points along the path
+}
+
+/**
+ * Multi-flash ("strobe") view of the trajectory.
+ */
+export interface StrobeOptions {
+  enabled: boolean;           // Show the projectile at fixed time intervals instead of a line
+  interval: number;           // Time between flashes (seconds)
+  guides: boolean;            // Project each flash onto the axes
+}
+
+/**
+ * Measuring tool applied to the motion graphs.
+ * - tangent: slope of the tangent at a chosen time
+ * - area: area under the graph between two chosen times
+ */
+export type GraphTool = 'none' | 'tangent' | 'area';
+
+/**
+ * Interval of time picked on a graph (seconds). `end` is null while
+ * only the first time has been picked.
+ */
+export interface TimeRange {
+  start: number;
+  end: number | null;
+}
+
+/**
+ * Energy of the projectile at one instant (joules).
+ */
+export interface EnergyState {
+  kinetic: number;            // ½mv²
+  potential: number;          // mgh, measured from the ground
+  total: number;              // Kinetic + potential
+}
+
+/**
+ * Energy at one instant compared with the energy at launch (joules).
+ */
+export interface EnergyBreakdown extends EnergyState {
+  launchTotal: number;        // Total energy at launch
+  change: number;             // Total now minus total at launch
+  lostToDrag: number;         // Work done against air resistance so far
+}
+
+/**
+ * Graphs that can be shown in the motion graphs panel.
+ */
+export type GraphKind =
+  | 'displacement'            // x and y against time
+  | 'velocity'                // vₓ and vᵧ against time
+  | 'trajectory'              // y against x (the path itself)
+  | 'speed'                   // |v| against time
+  | 'acceleration'            // aₓ and aᵧ against time
+  | 'energy';                 // Kinetic, potential and total energy against time
+
+/**
+ * How recorded trajectory data is written out.
+ */
+export interface DataExportOptions {
+  format: 'csv' | 'json';
+  interval: number;           // Seconds between exported samples (0 = every recorded sample)
+  decimals: number;           // Decimal places for every number
+}
+
+/**
+ * File types the canvas and graphs can be saved as.
+ * GIF and WebM animate the whole flight; PNG and SVG are still images.
+ */
+export type ImageExportFormat = 'png' | 'svg' | 'gif' | 'webm';
+
+/**
+ * Everything needed to set up an experiment again, e.g. from a shared link.
+ */
+export interface ExperimentConfig {
+  params: LaunchParameters;
+  integrator: IntegratorSettings;
+  target: Vector2D | null;
+  complementaryMode: boolean;
+  extraProjectiles: ExtraProjectile[];
+  vectors: VectorOptions;
+  strobe: StrobeOptions;
+  predictions: Predictions | null; // Left out of the link unless the student includes them
+}
+
+/**
+ * A named piece of work kept in the browser: the set-up with its
+ * predictions, the finished runs and the student's notes.
+ */
+export interface LabSession {
+  id: string;
+  name: string;
+  createdAt: string;          // ISO 8601 date and time
+  updatedAt: string;
+  experiment: ExperimentConfig;
+  runs: SavedRun[];
+  notes: string;
+}
+
+/**
+ * The parts of a session taken from the lab when it is saved.
+ */
+export type LabSessionContent = Pick<LabSession, 'experiment' | 'runs' | 'notes'>;
+
+/**
+ * A picture of the canvas or a graph taken for the lab report.
+ */
+export interface ReportSnapshot {
+  title: string;
+  dataUrl: string;            // PNG as a data: URL
+}
+
+/**
+ * Everything the lab report is written from.
+ */
+export interface LabReportContent {
+  params: LaunchParameters;
+  integrator: IntegratorSettings;
+  predictions: Predictions;
+  comparisons: ComparisonResult[] | null; // Null until a run has landed
+  snapshots: ReportSnapshot[];
+  conclusion: string;
+  createdAt: string;          // ISO 8601 date and time
+}
+
+/**
+ * One line of the worked solution: a formula, the numbers put into it
+ * and the answer, e.g. vᵧ = v₀ sin θ = 20 · sin 45° = 14.14 m/s.
+ */
+export interface WorkedStep {
+  quantity: string;           // What is being found
+  formula: string;            // In symbols
+  substitution: string;       // With the numbers put in
+  value: number;              // Answer, from the same function the simulation uses
+  unit: string;
+  note?: string;              // Why this form of the formula applies
+}
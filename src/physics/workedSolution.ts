@@ -0,0 +1,143 @@
+/**
+ * workedSolution.ts - Each result worked out from the launch values
+ *
+ * Every answer is calculated by the function in equations.ts that the
+ * simulation uses, in the same order as calculateAllResults, so the
+ * working always ends at the numbers shown in the results. Values carried
+ * from one step to the next are shown rounded, but the answers use the
+ * unrounded ones.
+ */
+
+import { DECIMAL_PLACES } from './constants';
+import {
+  calculateHorizontalRange,
+  calculateInitialVelocityX,
+  calculateInitialVelocityY,
+  calculateLandingDiscriminant,
+  calculateMaxHeight,
+  calculateTimeOfFlight,
+  calculateTimeToMaxHeight,
+  calculateVelocityAtTime,
+} from './equations';
+import { LaunchParameters, WorkedStep } from './types';
+
+// A value carried from an earlier step, as it is written in the working
+const carried = (value: number) => value.toFixed(DECIMAL_PLACES);
+
+/**
+ * The worked solution for time of flight, which depends on whether the
+ * landing is at the launch height, at another height, or out of reach
+ */
+function timeOfFlightSteps(params: LaunchParameters, initialVelocityY: number): WorkedStep[] {
+  const { gravity, launchHeight, landingHeight } = params;
+  const vy = carried(initialVelocityY);
+  const timeOfFlight = calculateTimeOfFlight(initialVelocityY, gravity, launchHeight, landingHeight);
+
+  if (launchHeight === landingHeight) {
+    return [{
+      quantity: 'Time of flight',
+      formula: 'T = 2vᵧ / g',
+      substitution: `2 · ${vy} / ${gravity}`,
+      value: timeOfFlight,
+      unit: 's',
+      note: 'Launch and landing are at the same height, so the way down takes as long as the way up.',
+    }];
+  }
+
+  const discriminant = calculateLandingDiscriminant(initialVelocityY, gravity, launchHeight, landingHeight);
+  const discriminantStep: WorkedStep = {
+    quantity: 'Under the square root',
+    formula: 'D = vᵧ² + 2g(h₀ − h₁)',
+    substitution: `${vy}² + 2 · ${gravity} · (${launchHeight} − ${landingHeight})`,
+    value: discriminant,
+    unit: 'm²/s²',
+    note: 'Solving h₁ = h₀ + vᵧt − ½gt² for t gives t = [vᵧ ± √D] / g; the landing is the later root.',
+  };
+
+  if (discriminant <= 0) {
+    return [discriminantStep, {
+      quantity: 'Time of flight',
+      formula: 'T = vᵧ / g',
+      substitution: `${vy} / ${gravity}`,
+      value: timeOfFlight,
+      unit: 's',
+      note: 'D is not positive: the landing height is above the peak, so the flight ends at the top of the arc.',
+    }];
+  }
+
+  return [discriminantStep, {
+    quantity: 'Time of flight',
+    formula: 'T = [vᵧ + √D] / g',
+    substitution: `[${vy} + √${carried(discriminant)}] / ${gravity}`,
+    value: timeOfFlight,
+    unit: 's',
+  }];
+}
+
+/**
+ * Every value in CalculatedResults, derived step by step from `params`
+ * with the kinematic equations (no air resistance)
+ */
+export function getWorkedSolution(params: LaunchParameters): WorkedStep[] {
+  const { initialVelocity, launchAngle, gravity, launchHeight } = params;
+
+  const initialVelocityX = calculateInitialVelocityX(initialVelocity, launchAngle);
+  const initialVelocityY = calculateInitialVelocityY(initialVelocity, launchAngle);
+  const timeToMaxHeight = calculateTimeToMaxHeight(initialVelocityY, gravity);
+  const timeOfFlight = calculateTimeOfFlight(initialVelocityY, gravity, launchHeight, params.landingHeight);
+  const maxHeight = calculateMaxHeight(initialVelocityY, gravity, launchHeight);
+  const horizontalRange = calculateHorizontalRange(initialVelocityX, timeOfFlight);
+  const finalVelocityY = calculateVelocityAtTime(initialVelocityX, initialVelocityY, gravity, timeOfFlight).y;
+
+  const vx = carried(initialVelocityX);
+  const vy = carried(initialVelocityY);
+  const time = carried(timeOfFlight);
+
+  return [
+    {
+      quantity: 'Horizontal velocity',
+      formula: 'vₓ = v₀ cos θ',
+      substitution: `${initialVelocity} · cos ${launchAngle}°`,
+      value: initialVelocityX,
+      unit: 'm/s',
+    },
+    {
+      quantity: 'Vertical velocity',
+      formula: 'vᵧ = v₀ sin θ',
+      substitution: `${initialVelocity} · sin ${launchAngle}°`,
+      value: initialVelocityY,
+      unit: 'm/s',
+    },
+    {
+      quantity: 'Time to max height',
+      formula: 't_peak = vᵧ / g',
+      substitution: `${vy} / ${gravity}`,
+      value: timeToMaxHeight,
+      unit: 's',
+      note: 'At the top the vertical velocity is zero: 0 = vᵧ − g·t_peak.',
+    },
+    {
+      quantity: 'Maximum height',
+      formula: 'H = h₀ + vᵧ² / (2g)',
+      substitution: `${launchHeight} + ${vy}² / (2 · ${gravity})`,
+      value: maxHeight,
+      unit: 'm',
+    },
+    ...timeOfFlightSteps(params, initialVelocityY),
+    {
+      quantity: 'Horizontal range',
+      formula: 'R = vₓ · T',
+      substitution: `${vx} · ${time}`,
+      value: horizontalRange,
+      unit: 'm',
+      note: 'Nothing pushes sideways, so vₓ stays the same for the whole flight.',
+    },
+    {
+      quantity: 'Vertical velocity at landing',
+      formula: 'vᵧ(T) = vᵧ − gT',
+      substitution: `${vy} − ${gravity} · ${time}`,
+      value: finalVelocityY,
+      unit: 'm/s',
+    },
+  ];
+}